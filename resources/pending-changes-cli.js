@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+// Talks to the Pending Changes extension from an integrated terminal:
+//   node "$PENDING_CHANGES_CLI" turn-start [name]
+//   node "$PENDING_CHANGES_CLI" turn-end [id]
+//   node "$PENDING_CHANGES_CLI" snapshot <path>...
+//   node "$PENDING_CHANGES_CLI" list [--json]
+'use strict';
+
+const net = require('net');
+const path = require('path');
+
+const USAGE = 'Usage: pending-changes-cli <turn-start [name] | turn-end [id] | snapshot <path>... | list> [--json]';
+
+const args = process.argv.slice(2);
+const json = args.includes('--json');
+const [command, ...rest] = args.filter(arg => arg !== '--json');
+
+const socketPath = process.env.PENDING_CHANGES_SOCKET;
+if (!socketPath) {
+    fail('PENDING_CHANGES_SOCKET is not set - run this from a VS Code terminal with Pending Changes Reviewer active');
+}
+
+let request;
+switch (command) {
+    case 'turn-start':
+        request = { command, name: rest.join(' ') || undefined };
+        break;
+    case 'turn-end':
+        request = { command, id: rest[0] };
+        break;
+    case 'snapshot':
+        if (rest.length === 0) fail(USAGE);
+        request = { command, paths: rest.map(p => path.resolve(p)) };
+        break;
+    case 'list':
+        request = { command };
+        break;
+    default:
+        fail(USAGE);
+}
+
+const socket = net.connect(socketPath, () => socket.write(JSON.stringify(request) + '\n'));
+let buffer = '';
+socket.setEncoding('utf-8');
+socket.on('data', data => {
+    buffer += data;
+    const newline = buffer.indexOf('\n');
+    if (newline < 0) return;
+    socket.end();
+    print(JSON.parse(buffer.slice(0, newline)));
+});
+socket.on('error', error => fail(`Could not reach Pending Changes: ${error.message}`));
+
+function print(response) {
+    if (json) {
+        console.log(JSON.stringify(response, null, 2));
+    } else if (!response.ok) {
+        fail(response.error);
+    } else if (response.turn) {
+        console.log(`Started ${response.turn.name} (${response.turn.id})`);
+    } else if (response.changes) {
+        const markers = { modified: 'M', created: 'A', deleted: 'D', renamed: 'R' };
+        for (const change of response.changes) {
+            console.log(`${markers[change.changeType]} ${change.relativePath} +${change.additions} -${change.deletions}`);
+        }
+    }
+    if (!response.ok) process.exitCode = 1;
+}
+
+function fail(message) {
+    console.error(message);
+    process.exit(1);
+}
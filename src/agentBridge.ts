@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { SnapshotManager, FileChange } from './snapshotManager';
+import { SessionManager } from './sessionManager';
+
+// Exported to integrated terminals so agents and hooks can find the bridge
+const SOCKET_ENV = 'PENDING_CHANGES_SOCKET';
+const CLI_ENV = 'PENDING_CHANGES_CLI';
+
+// A client that sends more than this without a newline is cut off
+const MAX_REQUEST_BYTES = 1024 * 1024;
+
+interface BridgeRequest {
+    command: 'turn-start' | 'turn-end' | 'snapshot' | 'list';
+    name?: string;          // turn-start
+    id?: string;            // turn-end; defaults to the latest open turn
+    paths?: string[];       // snapshot, absolute
+}
+
+/**
+ * A local socket (a named pipe on Windows) that CLI agents in the integrated terminal talk to
+ * through the bundled script: one JSON request per line, answered by one JSON line.
+ * Turns are sessions, so each one starts with a checkpoint in the Checkpoints section.
+ */
+export class AgentBridge implements vscode.Disposable {
+    private server: net.Server | undefined;
+    private socketDir: string | undefined;   // private folder holding the socket, except on Windows
+    private turns: string[] = [];   // session ids of open turns, oldest first
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private snapshotManager: SnapshotManager,
+        private sessionManager: SessionManager,
+        private environment: vscode.EnvironmentVariableCollection,
+        private cliPath: string
+    ) {
+        // Terminals restored after a reload must not point at the previous window's socket
+        this.environment.persistent = false;
+        this.environment.description = 'Lets agents in the terminal mark turns and snapshots in Pending Changes';
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('pendingChanges.terminalBridge')) {
+                    this.stop();
+                    this.start();
+                }
+            })
+        );
+    }
+
+    start(): void {
+        if (this.server || !vscode.workspace.getConfiguration('pendingChanges').get<boolean>('terminalBridge', true)) {
+            return;
+        }
+
+        let socketPath: string;
+        if (process.platform === 'win32') {
+            socketPath = `\\\\.\\pipe\\pending-changes-${crypto.randomBytes(8).toString('hex')}`;
+        } else {
+            // Created with mode 0700, so only this user can reach the socket from the moment it exists
+            try {
+                this.socketDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pending-changes-'));
+            } catch (error) {
+                console.error('Pending changes terminal bridge failed', error);
+                vscode.window.showWarningMessage(`Pending Changes: the terminal bridge could not be started: ${error instanceof Error ? error.message : error}`);
+                return;
+            }
+            socketPath = path.join(this.socketDir, 'bridge.sock');
+        }
+
+        const server = net.createServer(socket => this.handleConnection(socket));
+        server.on('error', error => {
+            console.error('Pending changes terminal bridge failed', error);
+            vscode.window.showWarningMessage(`Pending Changes: the terminal bridge could not be started: ${error.message}`);
+            this.stop();
+        });
+        server.listen(socketPath, () => {
+            this.environment.replace(SOCKET_ENV, socketPath);
+            this.environment.replace(CLI_ENV, this.cliPath);
+        });
+
+        this.server = server;
+    }
+
+    stop(): void {
+        // Closing the server also removes the socket file
+        this.server?.close();
+        this.server = undefined;
+        if (this.socketDir) {
+            try {
+                fs.rmSync(this.socketDir, { recursive: true, force: true });
+            } catch (error) {
+                console.error('Failed to remove the terminal bridge folder', error);
+            }
+            this.socketDir = undefined;
+        }
+        this.environment.clear();
+    }
+
+    private handleConnection(socket: net.Socket): void {
+        let buffer = '';
+        socket.setEncoding('utf-8');
+
+        socket.on('data', (data: string) => {
+            buffer += data;
+            if (buffer.length > MAX_REQUEST_BYTES) {
+                socket.destroy();
+                return;
+            }
+
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.slice(0, newline).trim();
+                buffer = buffer.slice(newline + 1);
+                if (line) {
+                    this.respond(socket, line);
+                }
+            }
+        });
+        socket.on('error', error => console.error('Pending changes terminal bridge connection failed', error));
+    }
+
+    private async respond(socket: net.Socket, line: string): Promise<void> {
+        let response: object;
+        try {
+            response = { ok: true, ...await this.handleRequest(JSON.parse(line) as BridgeRequest) };
+        } catch (error) {
+            response = { ok: false, error: error instanceof Error ? error.message : String(error) };
+        }
+        if (!socket.destroyed) {
+            socket.write(JSON.stringify(response) + '\n');
+        }
+    }
+
+    private async handleRequest(request: BridgeRequest): Promise<object> {
+        switch (request.command) {
+            case 'turn-start': {
+                const name = request.name?.trim() || `Turn ${new Date().toLocaleTimeString()}`;
+                const session = await this.sessionManager.begin(name);
+                this.turns.push(session.id);
+                return { turn: { id: session.id, name: session.name } };
+            }
+            case 'turn-end': {
+                // Turns may also have been ended through the API
+                this.turns = this.turns.filter(t => this.sessionManager.getSession(t));
+                const id = request.id ?? this.turns[this.turns.length - 1];
+                if (!id) {
+                    throw new Error('No turn is open');
+                }
+                const changes = await this.sessionManager.end(id);
+                if (!changes) {
+                    throw new Error(`No open turn with id ${id}`);
+                }
+                this.turns = this.turns.filter(t => t !== id);
+                return { changes: changes.map(toBridgeChange) };
+            }
+            case 'snapshot': {
+                if (!Array.isArray(request.paths) || request.paths.some(p => typeof p !== 'string' || !path.isAbsolute(p))) {
+                    throw new Error('snapshot needs a list of absolute paths');
+                }
+                await this.snapshotManager.snapshotFiles(request.paths.map(p => vscode.Uri.file(p)));
+                return {};
+            }
+            case 'list':
+                return { changes: (await this.snapshotManager.getChangedFiles()).map(toBridgeChange) };
+            default:
+                throw new Error(`Unknown command: ${(request as { command?: unknown }).command}`);
+        }
+    }
+
+    dispose(): void {
+        this.stop();
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+    }
+}
+
+function toBridgeChange(change: FileChange): object {
+    return {
+        path: change.uri.fsPath,
+        relativePath: change.relativePath,
+        changeType: change.changeType,
+        previousPath: change.previousUri?.fsPath,
+        additions: change.additions,
+        deletions: change.deletions,
+        origins: change.origins
+    };
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { FileChange, ChangeOrigin } from './snapshotManager';
+
+export { ChangeOrigin };
+
+/**
+ * A pending change as other extensions see it
+ */
+export interface PendingChange {
+    uri: vscode.Uri;
+    relativePath: string;
+    changeType: 'modified' | 'created' | 'deleted' | 'renamed';
+    previousUri?: vscode.Uri;   // renamed only
+    additions: number;
+    deletions: number;
+    binary: boolean;
+    origins: ChangeOrigin[];
+}
+
+export interface SessionInfo {
+    id: string;
+    name: string;
+    startedAt: Date;
+}
+
+/**
+ * What `activate()` returns, for other extensions and agents:
+ *
+ *     const api = vscode.extensions.getExtension<PendingChangesApi>('BPolyakov.pending-changes-reviewer')?.exports;
+ *
+ * Snapshotting files before writing them gives an exact baseline instead of relying on
+ * the file watcher to have seen them, and sessions mark which changes one agent turn made.
+ */
+export interface PendingChangesApi {
+    readonly version: 1;
+
+    /**
+     * Fires when files start or stop being tracked, and when tracked files change
+     */
+    readonly onDidChangePendingChanges: vscode.Event<void>;
+
+    getPendingChanges(): Promise<PendingChange[]>;
+
+    /**
+     * Record the current content of files as their baseline. Files already tracked keep theirs.
+     */
+    snapshot(uris: vscode.Uri[]): Promise<void>;
+
+    /**
+     * Start a named session. A checkpoint is taken so the session can be compared and rolled back.
+     */
+    beginSession(name: string): Promise<SessionInfo>;
+
+    /**
+     * End a session and get the files that changed during it, relative to its start
+     */
+    endSession(id: string): Promise<PendingChange[]>;
+
+    getActiveSessions(): SessionInfo[];
+
+    /**
+     * Accept the pending changes of these files without asking. Files without changes are skipped.
+     */
+    keep(uris: vscode.Uri[]): Promise<void>;
+
+    /**
+     * Revert these files without asking; the discarded versions go to Recently Discarded.
+     * Returns the relative paths that could not be reverted.
+     */
+    undo(uris: vscode.Uri[]): Promise<string[]>;
+}
+
+export function toPendingChange(change: FileChange): PendingChange {
+    return {
+        uri: change.uri,
+        relativePath: change.relativePath,
+        changeType: change.changeType,
+        previousUri: change.previousUri,
+        additions: change.additions,
+        deletions: change.deletions,
+        binary: change.binary !== undefined,
+        origins: [...change.origins]
+    };
+}
@@ -0,0 +1,50 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.webp', '.svgz']);
+
+const BINARY_EXTENSIONS = new Set([
+    ...IMAGE_EXTENSIONS,
+    '.woff', '.woff2', '.ttf', '.otf', '.eot',
+    '.sqlite', '.sqlite3', '.db',
+    '.pdf', '.zip', '.gz', '.tar', '.jar', '.wasm',
+    '.mp3', '.mp4', '.wav', '.ogg', '.webm'
+]);
+
+// Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Size and hash deltas for a binary change, plus the original bytes for previews and Undo
+ */
+export interface BinaryChange {
+    originalBytes: Buffer;
+    originalSize: number;
+    currentSize: number;
+    originalHash: string;
+    currentHash: string;
+    isImage: boolean;
+}
+
+export function isBinaryPath(filePath: string): boolean {
+    return BINARY_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+export function isImagePath(filePath: string): boolean {
+    return IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+export function isBinaryContent(filePath: string, bytes: Buffer): boolean {
+    if (isBinaryPath(filePath)) return true;
+    return bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+export function hashContent(content: string | Buffer): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+export function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,76 @@
+import { FileChange } from './snapshotManager';
+import { splitLines } from './lineDiff';
+import { matchesGlob } from './pathFilter';
+
+export type ChangeKind = 'modified' | 'created' | 'deleted';
+
+/**
+ * What the filter box at the top of the changes webviews narrows the list to
+ */
+export interface ChangeFilter {
+    text: string;
+    kinds: ChangeKind[];
+    searchContent: boolean;   // match text against added and removed lines instead of the path
+}
+
+export const ALL_KINDS: ChangeKind[] = ['modified', 'created', 'deleted'];
+
+export function createFilter(): ChangeFilter {
+    return { text: '', kinds: [...ALL_KINDS], searchContent: false };
+}
+
+export function isFilterActive(filter: ChangeFilter): boolean {
+    return filter.text.trim() !== '' || filter.kinds.length < ALL_KINDS.length;
+}
+
+/**
+ * Renames are listed with the modified files, like in the Source Control view
+ */
+export function getChangeKind(change: FileChange): ChangeKind {
+    return change.changeType === 'renamed' ? 'modified' : change.changeType;
+}
+
+export function matchesFilter(change: FileChange, filter: ChangeFilter): boolean {
+    if (!filter.kinds.includes(getChangeKind(change))) {
+        return false;
+    }
+    const text = filter.text.trim();
+    if (!text) {
+        return true;
+    }
+    return filter.searchContent
+        ? matchesChangedLines(change, text)
+        : matchesPath(change, text);
+}
+
+/**
+ * Text with glob characters is a glob; anything else is a case-insensitive substring.
+ * A glob without a folder part matches at any depth, so `*.ts` finds nested files too.
+ */
+function matchesPath(change: FileChange, text: string): boolean {
+    const paths = [change.relativePath, change.previousRelativePath]
+        .filter((p): p is string => p !== undefined)
+        .map(p => p.replace(/\\/g, '/'));
+
+    if (/[*?[{]/.test(text)) {
+        const glob = text.includes('/') ? text : `**/${text}`;
+        return paths.some(p => matchesGlob(p, glob));
+    }
+    const needle = text.toLowerCase();
+    return paths.some(p => p.toLowerCase().includes(needle));
+}
+
+function matchesChangedLines(change: FileChange, text: string): boolean {
+    if (change.binary) {
+        return false;
+    }
+    const needle = text.toLowerCase();
+    const originalLines = splitLines(change.originalContent);
+    const currentLines = splitLines(change.currentContent);
+
+    return change.hunks.some(hunk =>
+        originalLines.slice(hunk.originalStart, hunk.originalStart + hunk.originalLength)
+            .concat(currentLines.slice(hunk.currentStart, hunk.currentStart + hunk.currentLength))
+            .some(line => line.toLowerCase().includes(needle))
+    );
+}
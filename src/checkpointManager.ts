@@ -0,0 +1,308 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { SnapshotManager, FileChange } from './snapshotManager';
+import { JsonFile } from './jsonFile';
+import { computeHunks, countHunkLines } from './lineDiff';
+import { hashContent } from './binaryFiles';
+
+// Oldest automatic checkpoints are dropped beyond this count; named ones are kept
+const MAX_AUTO_CHECKPOINTS = 20;
+
+const CHECKPOINTS_FILE = 'checkpoints.json';
+
+/**
+ * One file as it was when a checkpoint was taken
+ */
+export interface CheckpointFile {
+    uri: vscode.Uri;
+    relativePath: string;
+    originalContent: string;   // the snapshot baseline at the time
+    isNewFile: boolean;
+    content: string | null;    // null if the file didn't exist at that point
+}
+
+export interface Checkpoint {
+    id: string;
+    name: string;
+    createdAt: Date;
+    auto: boolean;
+    files: Map<string, CheckpointFile>;
+}
+
+/**
+ * A checkpoint as written to disk, next to the snapshots it refers to
+ */
+interface StoredCheckpoint {
+    id: string;
+    name: string;
+    createdAt: string;
+    auto: boolean;
+    files: {
+        fsPath: string;
+        relativePath: string;
+        originalContent: string;
+        isNewFile: boolean;
+        content: string | null;
+    }[];
+}
+
+/**
+ * Named versions of the whole tracked state, so a later state can be rolled back
+ * to an intermediate one instead of only to the original snapshot.
+ * Binary files are not part of checkpoints; rolling back leaves them as they are.
+ */
+export class CheckpointManager implements vscode.Disposable {
+    private readonly file: JsonFile<StoredCheckpoint[]>;
+    private checkpoints: Checkpoint[] = [];
+    private nextId = 1;
+    private autoTimer: NodeJS.Timeout | undefined;
+    private lastFingerprint: string | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    private _onCheckpointsChanged = new vscode.EventEmitter<void>();
+    readonly onCheckpointsChanged = this._onCheckpointsChanged.event;
+
+    constructor(private snapshotManager: SnapshotManager, storageUri: vscode.Uri) {
+        this.file = new JsonFile(path.join(storageUri.fsPath, CHECKPOINTS_FILE), 'checkpoints');
+        this.startAutoCheckpoints();
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('pendingChanges.autoCheckpointMinutes')) {
+                    this.startAutoCheckpoints();
+                }
+            })
+        );
+    }
+
+    /**
+     * Bring back the checkpoints of the previous session
+     */
+    async load(): Promise<void> {
+        const stored = await this.file.read();
+        if (!stored) return;
+
+        this.checkpoints = stored.map(checkpoint => ({
+            id: checkpoint.id,
+            name: checkpoint.name,
+            createdAt: new Date(checkpoint.createdAt),
+            auto: checkpoint.auto,
+            files: new Map(checkpoint.files.map(file => [file.fsPath, {
+                uri: vscode.Uri.file(file.fsPath),
+                relativePath: file.relativePath,
+                originalContent: file.originalContent,
+                isNewFile: file.isNewFile,
+                content: file.content
+            }]))
+        }));
+        // Ids stay unique across sessions
+        this.nextId = Math.max(0, ...this.checkpoints.map(c => Number(c.id.replace('checkpoint-', '')) || 0)) + 1;
+        const last = this.checkpoints[this.checkpoints.length - 1];
+        this.lastFingerprint = last && this.fingerprint(last.files);
+        this._onCheckpointsChanged.fire();
+    }
+
+    getCheckpoints(): Checkpoint[] {
+        return [...this.checkpoints];
+    }
+
+    getCheckpoint(id: string): Checkpoint | undefined {
+        return this.checkpoints.find(c => c.id === id);
+    }
+
+    /**
+     * Capture the current content of every tracked file
+     */
+    async createCheckpoint(name: string, auto = false): Promise<Checkpoint> {
+        const files = await this.captureState();
+        const checkpoint: Checkpoint = {
+            id: `checkpoint-${this.nextId++}`,
+            name,
+            createdAt: new Date(),
+            auto,
+            files
+        };
+
+        this.checkpoints.push(checkpoint);
+        this.lastFingerprint = this.fingerprint(files);
+
+        if (auto) {
+            const autoCheckpoints = this.checkpoints.filter(c => c.auto);
+            if (autoCheckpoints.length > MAX_AUTO_CHECKPOINTS) {
+                this.checkpoints = this.checkpoints.filter(c => c !== autoCheckpoints[0]);
+            }
+        }
+
+        this.save();
+        return checkpoint;
+    }
+
+    deleteCheckpoint(id: string): void {
+        this.checkpoints = this.checkpoints.filter(c => c.id !== id);
+        this.save();
+    }
+
+    /**
+     * Files whose current content differs from the checkpoint, as changes relative to it
+     */
+    async getChangesSince(checkpoint: Checkpoint): Promise<FileChange[]> {
+        const changes: FileChange[] = [];
+
+        for (const target of this.getRollbackTargets(checkpoint)) {
+            const currentContent = await this.snapshotManager.getCurrentContent(target.uri);
+            if (currentContent === target.content) continue;
+
+            let changeType: FileChange['changeType'] = 'modified';
+            if (target.content === null) changeType = 'created';
+            if (currentContent === null) changeType = 'deleted';
+
+            const hunks = computeHunks(target.content ?? '', currentContent ?? '');
+            const { additions, deletions } = countHunkLines(hunks);
+            changes.push({
+                uri: target.uri,
+                relativePath: target.relativePath,
+                originalContent: target.content ?? '',
+                currentContent: currentContent ?? '',
+                snapshotTime: checkpoint.createdAt,
+                workspaceFolder: vscode.workspace.getWorkspaceFolder(target.uri)?.name,
+                changeType,
+                additions,
+                deletions,
+                hunks,
+                contentHash: currentContent === null ? '' : hashContent(currentContent),
+                origins: this.snapshotManager.getSnapshot(target.uri)?.origins ?? []
+            });
+        }
+
+        return changes;
+    }
+
+    /**
+     * Put every file back the way it was at the checkpoint. Files tracked since then
+     * go back to their baseline, since they were unchanged when the checkpoint was taken.
+     * Returns the relative paths that could not be written.
+     */
+    async rollback(checkpoint: Checkpoint): Promise<string[]> {
+        const failed: string[] = [];
+
+        for (const target of this.getRollbackTargets(checkpoint)) {
+            const currentContent = await this.snapshotManager.getCurrentContent(target.uri);
+            if (currentContent === target.content) continue;
+
+            // Keep reviewing against the original baseline, not the checkpoint
+            this.snapshotManager.ensureSnapshot(target.uri, target.originalContent, target.isNewFile);
+
+            const success = await this.snapshotManager.writeFileContent(target.uri, target.content);
+            if (!success) {
+                failed.push(target.relativePath);
+            }
+        }
+
+        return failed;
+    }
+
+    private getRollbackTargets(checkpoint: Checkpoint): CheckpointFile[] {
+        const targets = new Map(checkpoint.files);
+
+        for (const snapshot of [...this.snapshotManager.getAllSnapshots(), ...this.snapshotManager.getDeletedSnapshots()]) {
+            if (snapshot.isBinary || targets.has(snapshot.uri.fsPath)) continue;
+            targets.set(snapshot.uri.fsPath, {
+                uri: snapshot.uri,
+                relativePath: snapshot.relativePath,
+                originalContent: snapshot.originalContent,
+                isNewFile: snapshot.isNewFile,
+                content: snapshot.isNewFile ? null : snapshot.originalContent
+            });
+        }
+
+        return Array.from(targets.values());
+    }
+
+    private async captureState(): Promise<Map<string, CheckpointFile>> {
+        const files = new Map<string, CheckpointFile>();
+
+        // Binary files only have their baseline; checkpoints cover text content
+        for (const snapshot of this.snapshotManager.getAllSnapshots()) {
+            if (snapshot.isBinary) continue;
+            files.set(snapshot.uri.fsPath, {
+                uri: snapshot.uri,
+                relativePath: snapshot.relativePath,
+                originalContent: snapshot.originalContent,
+                isNewFile: snapshot.isNewFile,
+                content: await this.snapshotManager.getCurrentContent(snapshot.uri)
+            });
+        }
+        for (const snapshot of this.snapshotManager.getDeletedSnapshots()) {
+            if (snapshot.isBinary) continue;
+            files.set(snapshot.uri.fsPath, {
+                uri: snapshot.uri,
+                relativePath: snapshot.relativePath,
+                originalContent: snapshot.originalContent,
+                isNewFile: false,
+                content: null
+            });
+        }
+
+        return files;
+    }
+
+    private save(): void {
+        this.file.write(this.checkpoints.map(checkpoint => ({
+            id: checkpoint.id,
+            name: checkpoint.name,
+            createdAt: checkpoint.createdAt.toISOString(),
+            auto: checkpoint.auto,
+            files: Array.from(checkpoint.files.values()).map(file => ({
+                fsPath: file.uri.fsPath,
+                relativePath: file.relativePath,
+                originalContent: file.originalContent,
+                isNewFile: file.isNewFile,
+                content: file.content
+            }))
+        })));
+        this._onCheckpointsChanged.fire();
+    }
+
+    private fingerprint(files: Map<string, CheckpointFile>): string {
+        const hash = crypto.createHash('sha1');
+        for (const [key, file] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+            hash.update(key).update('\0').update(file.content ?? '\0deleted').update('\0');
+        }
+        return hash.digest('hex');
+    }
+
+    private startAutoCheckpoints(): void {
+        if (this.autoTimer) {
+            clearInterval(this.autoTimer);
+            this.autoTimer = undefined;
+        }
+
+        const minutes = vscode.workspace.getConfiguration('pendingChanges').get<number>('autoCheckpointMinutes', 0);
+        if (minutes <= 0) return;
+
+        this.autoTimer = setInterval(() => this.autoCheckpoint(), minutes * 60 * 1000);
+    }
+
+    private async autoCheckpoint(): Promise<void> {
+        try {
+            const files = await this.captureState();
+            // Nothing tracked, or nothing changed since the last checkpoint
+            if (files.size === 0 || this.fingerprint(files) === this.lastFingerprint) return;
+
+            await this.createCheckpoint(`Auto ${new Date().toLocaleTimeString()}`, true);
+        } catch (error) {
+            console.error('Failed to create automatic checkpoint', error);
+        }
+    }
+
+    dispose(): void {
+        if (this.autoTimer) {
+            clearInterval(this.autoTimer);
+        }
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+        this._onCheckpointsChanged.dispose();
+    }
+}
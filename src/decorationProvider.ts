@@ -39,7 +39,8 @@ export class ChangeStatsDecorationProvider implements vscode.FileDecorationProvi
 
         // Format like Copilot: +23 -8
         const badge = stats.changeType === 'created' ? '+' : 
-                      stats.changeType === 'deleted' ? '-' : '~';
+                      stats.changeType === 'deleted' ? '-' :
+                      stats.changeType === 'renamed' ? 'R' : '~';
         
         // Color based on change type
         let color: vscode.ThemeColor;
@@ -50,6 +51,9 @@ export class ChangeStatsDecorationProvider implements vscode.FileDecorationProvi
             case 'deleted':
                 color = new vscode.ThemeColor('gitDecoration.deletedResourceForeground');
                 break;
+            case 'renamed':
+                color = new vscode.ThemeColor('gitDecoration.renamedResourceForeground');
+                break;
             default:
                 color = new vscode.ThemeColor('gitDecoration.modifiedResourceForeground');
         }
@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { FileChange } from './snapshotManager';
+import { formatSize, hashContent } from './binaryFiles';
 
 /**
  * Virtual document provider for showing original file content in diff view
@@ -8,9 +11,38 @@ export class OriginalContentProvider implements vscode.TextDocumentContentProvid
     static readonly scheme = 'pending-changes-original';
     
     private contentMap: Map<string, string> = new Map();
+    private snapshotSource: ((uri: vscode.Uri) => string | undefined) | undefined;
+    private servedSnapshots: Set<string> = new Set();
     private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
     readonly onDidChange = this._onDidChange.event;
 
+    /**
+     * URI of the left side of a diff opened by DiffViewer.showDiff
+     */
+    static baselineUri(uri: vscode.Uri, baselineLabel: string): vscode.Uri {
+        return vscode.Uri.parse(`${OriginalContentProvider.scheme}:${uri.fsPath}?${encodeURIComponent(baselineLabel)}`);
+    }
+
+    /**
+     * Stable URI of a file's snapshot, read on demand (used by quick diff)
+     */
+    static snapshotUri(uri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.parse(`${OriginalContentProvider.scheme}:${uri.fsPath}?snapshot`);
+    }
+
+    setSnapshotSource(source: (uri: vscode.Uri) => string | undefined): void {
+        this.snapshotSource = source;
+    }
+
+    /**
+     * Baselines moved (keep, undo, new snapshots) - have open snapshot documents re-read
+     */
+    refreshSnapshots(): void {
+        for (const key of this.servedSnapshots) {
+            this._onDidChange.fire(vscode.Uri.parse(key));
+        }
+    }
+
     setContent(uri: vscode.Uri, content: string): void {
         const key = uri.toString();
         this.contentMap.set(key, content);
@@ -22,12 +54,17 @@ export class OriginalContentProvider implements vscode.TextDocumentContentProvid
     }
 
     provideTextDocumentContent(uri: vscode.Uri): string {
+        if (uri.query === 'snapshot' && this.snapshotSource) {
+            this.servedSnapshots.add(uri.toString());
+            return this.snapshotSource(vscode.Uri.file(uri.path)) ?? '';
+        }
         return this.contentMap.get(uri.toString()) || '';
     }
 
     dispose(): void {
         this._onDidChange.dispose();
         this.contentMap.clear();
+        this.servedSnapshots.clear();
     }
 }
 
@@ -35,7 +72,14 @@ export class DiffViewer implements vscode.Disposable {
     private originalContentProvider: OriginalContentProvider;
     private disposables: vscode.Disposable[] = [];
 
-    constructor() {
+    // Image baselines are written here so the built-in image preview can show them side by side.
+    // There is one preview per tracked file, deleted again when its editor closes.
+    private previewDir: string;
+    private previewHashes: Map<string, string> = new Map();   // preview path -> hash of what it holds
+    private previewsCleared: Promise<void>;
+
+    constructor(storageUri: vscode.Uri) {
+        this.previewDir = path.join(storageUri.fsPath, 'previews');
         this.originalContentProvider = new OriginalContentProvider();
         
         const registration = vscode.workspace.registerTextDocumentContentProvider(
@@ -44,26 +88,62 @@ export class DiffViewer implements vscode.Disposable {
         );
         
         this.disposables.push(registration);
-    }
 
-    async showDiff(change: FileChange): Promise<void> {
-        // Create URI for original content
-        const originalUri = vscode.Uri.parse(
-            `${OriginalContentProvider.scheme}:${change.uri.fsPath}?original`
+        this.disposables.push(
+            vscode.window.tabGroups.onDidChangeTabs(e => {
+                for (const tab of e.closed) {
+                    const preview = getPreviewUri(tab.input);
+                    if (preview && path.dirname(preview.fsPath) === this.previewDir) {
+                        this.deletePreview(preview);
+                    }
+                }
+            })
         );
+
+        // Left over from an earlier session
+        this.previewsCleared = fs.promises.rm(this.previewDir, { recursive: true, force: true })
+            .catch(error => console.error('Failed to clear image previews', error));
+    }
+
+    /**
+     * Serve tracked files' snapshots at OriginalContentProvider.snapshotUri,
+     * re-read whenever the baselines change
+     */
+    serveSnapshots(source: (uri: vscode.Uri) => string | undefined, onDidChange: vscode.Event<void>): void {
+        this.originalContentProvider.setSnapshotSource(source);
+        this.disposables.push(onDidChange(() => this.originalContentProvider.refreshSnapshots()));
+    }
+
+    async showDiff(change: FileChange, baselineLabel = 'Original'): Promise<void> {
+        if (change.binary) {
+            await this.showBinaryDiff(change, baselineLabel);
+            return;
+        }
+
+        // Create URI for original content (one per baseline, so checkpoint diffs don't clobber each other)
+        const originalUri = OriginalContentProvider.baselineUri(change.uri, baselineLabel);
         
         // Set the original content
         this.originalContentProvider.setContent(originalUri, change.originalContent);
 
+        // A deleted file has nothing on disk to compare against - show an empty document instead
+        let currentUri = change.uri;
+        if (change.changeType === 'deleted') {
+            currentUri = vscode.Uri.parse(`${OriginalContentProvider.scheme}:${change.uri.fsPath}?deleted`);
+            this.originalContentProvider.setContent(currentUri, '');
+        }
+
         // Get the title for the diff editor
-        const fileName = change.relativePath;
-        const title = `${fileName} (Original ↔ Current)`;
+        const fileName = change.previousRelativePath
+            ? `${change.previousRelativePath} → ${change.relativePath}`
+            : change.relativePath;
+        const title = `${fileName} (${baselineLabel} ↔ Current)`;
 
         // Open the diff editor
         await vscode.commands.executeCommand(
             'vscode.diff',
             originalUri,
-            change.uri,
+            currentUri,
             title,
             {
                 preview: true,
@@ -72,6 +152,107 @@ export class DiffViewer implements vscode.Disposable {
         );
     }
 
+    /**
+     * Images open side by side in the image preview; other binary files only report what changed
+     */
+    private async showBinaryDiff(change: FileChange, baselineLabel: string): Promise<void> {
+        const binary = change.binary!;
+
+        if (!binary.isImage) {
+            const sizes = change.changeType === 'created'
+                ? `new file, ${formatSize(binary.currentSize)}`
+                : change.changeType === 'deleted'
+                    ? `deleted, was ${formatSize(binary.originalSize)}`
+                    : `${formatSize(binary.originalSize)} → ${formatSize(binary.currentSize)}, ` +
+                      `${binary.originalHash.slice(0, 7)} → ${binary.currentHash.slice(0, 7)}`;
+            vscode.window.showInformationMessage(`${change.relativePath} is a binary file (${sizes}).`);
+            return;
+        }
+
+        if (change.changeType === 'created') {
+            await vscode.commands.executeCommand('vscode.open', change.uri, { preview: true });
+            return;
+        }
+
+        let originalUri: vscode.Uri;
+        try {
+            originalUri = await this.writePreview(change.uri, binary.originalBytes, binary.originalHash);
+        } catch (error) {
+            console.error('Failed to write image preview', error);
+            vscode.window.showErrorMessage(`Failed to show the original of ${change.relativePath}`);
+            return;
+        }
+
+        if (change.changeType === 'deleted') {
+            await vscode.commands.executeCommand('vscode.open', originalUri, { preview: true });
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            originalUri,
+            change.uri,
+            `${change.relativePath} (${baselineLabel} ↔ Current)`,
+            {
+                preview: true,
+                preserveFocus: false
+            }
+        );
+    }
+
+    private async writePreview(uri: vscode.Uri, bytes: Buffer, hash: string): Promise<vscode.Uri> {
+        // Keep the extension so the image preview recognises the file type
+        const previewPath = path.join(this.previewDir, `${hashContent(uri.fsPath).slice(0, 16)}${path.extname(uri.fsPath)}`);
+        await this.previewsCleared;
+        if (this.previewHashes.get(previewPath) !== hash || !fs.existsSync(previewPath)) {
+            await fs.promises.mkdir(this.previewDir, { recursive: true });
+            await fs.promises.writeFile(previewPath, bytes);
+            this.previewHashes.set(previewPath, hash);
+        }
+        return vscode.Uri.file(previewPath);
+    }
+
+    private deletePreview(uri: vscode.Uri): void {
+        // Still shown in another tab
+        const openTabs = vscode.window.tabGroups.all.flatMap(group => group.tabs);
+        if (openTabs.some(tab => getPreviewUri(tab.input)?.fsPath === uri.fsPath)) return;
+
+        this.previewHashes.delete(uri.fsPath);
+        fs.promises.unlink(uri.fsPath).catch(() => {
+            // Already gone
+        });
+    }
+
+    /**
+     * Compare two arbitrary versions of a file, both served from memory
+     */
+    async showVersionDiff(
+        uri: vscode.Uri,
+        relativePath: string,
+        left: { label: string; content: string },
+        right: { label: string; content: string }
+    ): Promise<void> {
+        const leftUri = vscode.Uri.parse(
+            `${OriginalContentProvider.scheme}:${uri.fsPath}?${encodeURIComponent(left.label)}`
+        );
+        const rightUri = vscode.Uri.parse(
+            `${OriginalContentProvider.scheme}:${uri.fsPath}?${encodeURIComponent(right.label)}`
+        );
+        this.originalContentProvider.setContent(leftUri, left.content);
+        this.originalContentProvider.setContent(rightUri, right.content);
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            leftUri,
+            rightUri,
+            `${relativePath} (${left.label} ↔ ${right.label})`,
+            {
+                preview: true,
+                preserveFocus: false
+            }
+        );
+    }
+
     dispose(): void {
         for (const d of this.disposables) {
             d.dispose();
@@ -79,3 +260,12 @@ export class DiffViewer implements vscode.Disposable {
         this.originalContentProvider.dispose();
     }
 }
+
+/**
+ * The file an image preview tab shows, or the left side of an image diff tab
+ */
+function getPreviewUri(input: unknown): vscode.Uri | undefined {
+    if (input instanceof vscode.TabInputTextDiff) return input.original;
+    if (input instanceof vscode.TabInputText || input instanceof vscode.TabInputCustom) return input.uri;
+    return undefined;
+}
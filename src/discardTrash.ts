@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SnapshotManager, FileChange } from './snapshotManager';
+import { JsonFile } from './jsonFile';
+import { SavedChange, saveChange, getSavedSize, isUntouched, restoreChange } from './savedChange';
+
+const TRASH_FILE = 'discarded.json';
+
+// Oldest entries are dropped beyond either limit; the newest one is always kept
+const MAX_DISCARDED_FILES = 50;
+const MAX_DISCARDED_BYTES = 20 * 1024 * 1024;
+
+/**
+ * The version of a file that Undo threw away, and the baseline it was reverted to
+ */
+export interface DiscardedFile extends SavedChange {
+    id: string;
+    batchId: string;                // files undone by one Undo / Undo All share a batch
+    discardedAt: number;
+}
+
+/**
+ * A bounded trash of undone changes, kept in the workspace storage folder,
+ * so an Undo can be taken back file by file or as a whole
+ */
+export class DiscardTrash implements vscode.Disposable {
+    private readonly file: JsonFile<DiscardedFile[]>;
+    private entries: DiscardedFile[] = [];   // oldest first
+    private nextId = 0;
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private snapshotManager: SnapshotManager, storageUri: vscode.Uri) {
+        this.file = new JsonFile(path.join(storageUri.fsPath, TRASH_FILE), 'discarded changes');
+    }
+
+    async load(): Promise<void> {
+        const entries = await this.file.read();
+        if (entries) {
+            this.entries = entries;
+            this._onDidChange.fire();
+        }
+    }
+
+    /**
+     * Newest first
+     */
+    getEntries(): DiscardedFile[] {
+        return [...this.entries].reverse();
+    }
+
+    getEntry(id: string): DiscardedFile | undefined {
+        return this.entries.find(e => e.id === id);
+    }
+
+    /**
+     * What the last Undo or Undo All discarded, as far as it is still in the trash
+     */
+    getLastBatch(): DiscardedFile[] {
+        const last = this.entries[this.entries.length - 1];
+        return last ? this.entries.filter(e => e.batchId === last.batchId) : [];
+    }
+
+    newBatch(): string {
+        return `batch-${Date.now()}-${this.nextId++}`;
+    }
+
+    /**
+     * Read the version of a change that is about to be undone. Call before reverting.
+     */
+    async capture(change: FileChange, batchId: string): Promise<DiscardedFile | undefined> {
+        const saved = await saveChange(change);
+        return saved && {
+            ...saved,
+            id: `discarded-${Date.now()}-${this.nextId++}`,
+            batchId,
+            discardedAt: Date.now()
+        };
+    }
+
+    add(entry: DiscardedFile): void {
+        this.entries.push(entry);
+
+        let size = this.entries.reduce((sum, e) => sum + getSavedSize(e), 0);
+        while (this.entries.length > 1 && (this.entries.length > MAX_DISCARDED_FILES || size > MAX_DISCARDED_BYTES)) {
+            size -= getSavedSize(this.entries.shift()!);
+        }
+        this.save();
+    }
+
+    /**
+     * Relative paths of entries whose file was edited after the Undo, which restoring would overwrite
+     */
+    async getConflicts(entries: DiscardedFile[]): Promise<string[]> {
+        const conflicts: string[] = [];
+        for (const entry of entries) {
+            if (!await isUntouched(this.snapshotManager, entry)) {
+                conflicts.push(entry.relativePath);
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * Put discarded versions back as pending changes against their original baseline.
+     * Returns the relative paths that could not be restored; the rest leave the trash.
+     */
+    async restore(entries: DiscardedFile[]): Promise<string[]> {
+        const failed: string[] = [];
+        const restored = new Set<string>();
+
+        for (const entry of entries) {
+            if (await restoreChange(this.snapshotManager, entry)) {
+                restored.add(entry.id);
+            } else {
+                failed.push(entry.relativePath);
+            }
+        }
+
+        if (restored.size > 0) {
+            this.entries = this.entries.filter(e => !restored.has(e.id));
+            this.save();
+        }
+        return failed;
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.save();
+    }
+
+    private save(): void {
+        this.file.write(this.entries);
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
@@ -1,28 +1,78 @@
 import * as vscode from 'vscode';
-import { SnapshotManager } from './snapshotManager';
+import * as path from 'path';
+import * as fs from 'fs';
+import { SnapshotManager, FileChange, RestoreReport } from './snapshotManager';
+import { SnapshotStore } from './snapshotStore';
+import { PathFilter, IGNORE_FILE } from './pathFilter';
+import { GitBaseline } from './gitBaseline';
+import { GitIntegration } from './gitIntegration';
+import { CheckpointManager, Checkpoint } from './checkpointManager';
+import { VersionHistory, FileVersion, getVersionLabel } from './versionHistory';
 import { FileWatcher } from './fileWatcher';
 import { PendingChangesWebviewProvider, PendingChangesTreeProvider, ChangedFileItem, SummaryItem } from './treeViewProvider';
 import { DiffViewer } from './diffViewer';
+import { HunkCodeLensProvider } from './hunkCodeLensProvider';
+import { InlineChangeDecorations } from './inlineDecorations';
+import { PendingChangesScmProvider } from './scmProvider';
+import { ReviewNotes, NoteComment } from './reviewNotes';
+import { ViewedFiles } from './viewedFiles';
+import { DiscardTrash, DiscardedFile } from './discardTrash';
+import { ShelfManager, Shelf } from './shelfManager';
+import { SessionManager } from './sessionManager';
+import { AgentBridge } from './agentBridge';
+import { PendingChangesApi, toPendingChange } from './api';
+import { DiffHunk } from './lineDiff';
+import { createPatch } from './unifiedDiff';
+import { parsePatch, applyPatch, FilePatch } from './patchImport';
 
 let snapshotManager: SnapshotManager;
+let pathFilter: PathFilter;
+let gitBaseline: GitBaseline;
+let gitIntegration: GitIntegration;
+let checkpointManager: CheckpointManager;
+let versionHistory: VersionHistory;
+let reviewNotes: ReviewNotes;
+let viewedFiles: ViewedFiles;
+let discardTrash: DiscardTrash;
+let shelfManager: ShelfManager;
+let sessionManager: SessionManager;
+let agentBridge: AgentBridge;
 let fileWatcher: FileWatcher;
 let treeProvider: PendingChangesTreeProvider;
 let diffViewer: DiffViewer;
 let statusBarItem: vscode.StatusBarItem;
 let sidebarProvider: PendingChangesWebviewProvider;
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<PendingChangesApi | undefined> {
     console.log('Pending Changes Reviewer: Activating...');
 
     try {
         // Initialize managers
-        snapshotManager = new SnapshotManager();
+        const store = new SnapshotStore(context.storageUri ?? context.globalStorageUri);
+        pathFilter = new PathFilter();
+        snapshotManager = new SnapshotManager(store, pathFilter);
+        gitBaseline = new GitBaseline(snapshotManager, context.workspaceState);
+        snapshotManager.setBaselineSource(uri => gitBaseline.readBaseline(uri));
+        gitIntegration = new GitIntegration();
+        checkpointManager = new CheckpointManager(snapshotManager, context.storageUri ?? context.globalStorageUri);
+        sessionManager = new SessionManager(checkpointManager);
+        agentBridge = new AgentBridge(
+            snapshotManager,
+            sessionManager,
+            context.environmentVariableCollection,
+            context.asAbsolutePath(path.join('resources', 'pending-changes-cli.js'))
+        );
+        versionHistory = new VersionHistory(snapshotManager);
+        reviewNotes = new ReviewNotes(snapshotManager, context.workspaceState);
+        viewedFiles = new ViewedFiles(context.workspaceState);
+        discardTrash = new DiscardTrash(snapshotManager, context.storageUri ?? context.globalStorageUri);
+        shelfManager = new ShelfManager(snapshotManager, context.storageUri ?? context.globalStorageUri);
         fileWatcher = new FileWatcher(snapshotManager);
         treeProvider = new PendingChangesTreeProvider(snapshotManager);
-        diffViewer = new DiffViewer();
+        diffViewer = new DiffViewer(context.globalStorageUri);
         
         // Create webview provider for sidebar (Copilot-style UI)
-        sidebarProvider = new PendingChangesWebviewProvider(context.extensionUri, snapshotManager);
+        sidebarProvider = new PendingChangesWebviewProvider(context.extensionUri, snapshotManager, checkpointManager, versionHistory, reviewNotes, viewedFiles, discardTrash, shelfManager);
 
         // Register webview for Activity Bar sidebar
         context.subscriptions.push(
@@ -32,6 +82,23 @@ export function activate(context: vscode.ExtensionContext) {
             )
         );
 
+        // Keep / Undo actions above each changed hunk in the editor
+        const hunkCodeLensProvider = new HunkCodeLensProvider(snapshotManager);
+        context.subscriptions.push(
+            vscode.languages.registerCodeLensProvider({ scheme: 'file' }, hunkCodeLensProvider),
+            hunkCodeLensProvider
+        );
+
+        // Gutter bars and removed-line ghost text in the editor
+        context.subscriptions.push(new InlineChangeDecorations(context.extensionUri, snapshotManager));
+
+        // Source Control view entry, with quick diff against the snapshot instead of git
+        diffViewer.serveSnapshots(uri => {
+            const snapshot = snapshotManager.getSnapshot(uri);
+            return snapshot && !snapshot.isBinary ? snapshot.originalContent : undefined;
+        }, snapshotManager.onSnapshotsChanged);
+        context.subscriptions.push(new PendingChangesScmProvider(snapshotManager));
+
         // Create status bar item (just shows count)
         statusBarItem = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Left,
@@ -59,15 +126,105 @@ export function activate(context: vscode.ExtensionContext) {
         context.subscriptions.push(
             vscode.commands.registerCommand('pendingChanges.discardFile', discardFile)
         );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.acceptHunk', acceptHunk)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.discardHunk', discardHunk)
+        );
         context.subscriptions.push(
             vscode.commands.registerCommand('pendingChanges.acceptAll', acceptAllFiles)
         );
         context.subscriptions.push(
             vscode.commands.registerCommand('pendingChanges.discardAll', discardAllFiles)
         );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.acceptSelected', acceptSelected)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.discardSelected', discardSelected)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.acceptDirectory', acceptDirectory)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.discardDirectory', discardDirectory)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.toggleLayout', toggleLayout)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.keepAndCommit', keepAndCommit)
+        );
         context.subscriptions.push(
             vscode.commands.registerCommand('pendingChanges.showDiff', showDiff)
         );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.createCheckpoint', createCheckpoint)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.rollbackToCheckpoint', rollbackToCheckpoint)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.diffCheckpoint', diffCheckpoint)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.deleteCheckpoint', deleteCheckpoint)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.compareVersions', compareVersions)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.restoreVersion', restoreVersion)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.exportPatch', exportPatch)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.importPatch', importPatch)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.ignorePath', ignorePath)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.toggleViewed', toggleViewed)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.addNote', addNote)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.saveNote', (reply: vscode.CommentReply) => reviewNotes.addLineNote(reply))
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.deleteNote', deleteNote)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.deleteNoteThread', (thread: vscode.CommentThread) => reviewNotes.deleteThread(thread))
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.openNote', openNote)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.exportReview', exportReview)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.restoreDiscarded', restoreDiscarded)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.redoUndo', redoUndo)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.clearDiscarded', clearDiscarded)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.shelve', shelveChanges)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.unshelve', unshelve)
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand('pendingChanges.deleteShelf', deleteShelf)
+        );
         context.subscriptions.push(
             vscode.commands.registerCommand('pendingChanges.refresh', refresh)
         );
@@ -79,13 +236,51 @@ export function activate(context: vscode.ExtensionContext) {
         context.subscriptions.push(
             statusBarItem,
             fileWatcher,
-            diffViewer
+            diffViewer,
+            checkpointManager,
+            sessionManager,
+            agentBridge,
+            versionHistory,
+            reviewNotes,
+            viewedFiles,
+            discardTrash,
+            shelfManager,
+            pathFilter,
+            gitBaseline
+        );
+
+        // Keep the persisted copy in sync with edits to tracked files,
+        // and record every save or disk write as a version
+        context.subscriptions.push(
+            fileWatcher.onFileChanged(uri => {
+                snapshotManager.schedulePersist();
+                versionHistory.recordVersion(uri);
+                gitBaseline.scheduleSync();
+            }),
+            vscode.workspace.onDidSaveTextDocument(doc => {
+                snapshotManager.schedulePersist();
+                versionHistory.recordVersion(doc.uri);
+            })
         );
 
+        // Bring back pending changes from the previous session before tracking new ones
+        await discardTrash.load();
+        await shelfManager.load();
+        await checkpointManager.load();
+        const report = await snapshotManager.restore();
+        warnAboutRestoredSnapshots(report);
+
         // AUTO-START tracking immediately
         fileWatcher.startTracking();
+
+        // Let agents in the integrated terminal mark turns
+        agentBridge.start();
+
+        // In git baseline mode, pick up everything that changed since the last commit
+        await gitBaseline.sync();
         
         console.log('Pending Changes Reviewer: Activated successfully!');
+        return createApi(context);
     } catch (error) {
         console.error('Pending Changes Reviewer: Activation failed!', error);
         vscode.window.showErrorMessage(`Pending Changes Reviewer failed to activate: ${error}`);
@@ -106,8 +301,29 @@ function updateStatusBar(changeCount: number): void {
     }
 }
 
+function warnAboutRestoredSnapshots(report: RestoreReport): void {
+    const problems: string[] = [];
+    if (report.vanished.length > 0) {
+        problems.push(`${report.vanished.length} file(s) no longer exist: ${formatPathList(report.vanished)}`);
+    }
+    if (report.changedOnDisk.length > 0) {
+        problems.push(`${report.changedOnDisk.length} file(s) changed while the window was closed: ${formatPathList(report.changedOnDisk)}`);
+    }
+    if (problems.length === 0) return;
+
+    vscode.window.showWarningMessage(
+        `Pending Changes: restored ${report.restored} pending file(s), but ${problems.join('; ')}. ` +
+        'Their diffs may include edits that were not tracked.'
+    );
+}
+
+function formatPathList(paths: string[]): string {
+    const shown = paths.slice(0, 3).join(', ');
+    return paths.length > 3 ? `${shown} and ${paths.length - 3} more` : shown;
+}
+
 function openInPanel(): void {
-    vscode.commands.executeCommand('workbench.view.extension.pending-changes-panel');
+    vscode.commands.executeCommand('workbench.view.extension.pending-changes');
 }
 
 async function snapshotCurrentFile(): Promise<void> {
@@ -162,15 +378,56 @@ async function acceptFile(item?: ChangedFileItem | { change: any }): Promise<voi
     }
 
     if (uri) {
-        // Pass callback to update file watcher cache
-        await snapshotManager.acceptAndUpdateBaseline(uri, (u, content) => {
-            fileWatcher.updateFileCache(u, content);
-        });
+        const target = uri;
+        const change = (await snapshotManager.getChangedFiles()).find(c => c.uri.fsPath === target.fsPath);
+        if (change) {
+            await keepChange(change);
+            await stageKeptChanges([change]);
+        } else {
+            // Pass callback to update file watcher cache
+            await snapshotManager.acceptAndUpdateBaseline(uri, (u, content) => {
+                fileWatcher.updateFileCache(u, content);
+            });
+        }
         treeProvider.refresh();
         sidebarProvider.refresh();
     }
 }
 
+/**
+ * Accept one change - moves need both of their halves accepted
+ */
+async function keepChange(change: FileChange): Promise<void> {
+    const updateCache = (u: vscode.Uri, content: string | Buffer) => fileWatcher.updateFileCache(u, content);
+    if (change.changeType === 'renamed') {
+        await snapshotManager.acceptRename(change, updateCache);
+    } else {
+        await snapshotManager.acceptAndUpdateBaseline(change.uri, updateCache);
+    }
+    await gitBaseline.markKept(change);
+    reviewNotes.archive(getChangeUris(change));
+    viewedFiles.forget(getChangeUris(change));
+}
+
+/**
+ * Undo one change, keeping the discarded version in the trash. Files undone
+ * together pass the same batch so they can be restored together.
+ */
+async function undoChange(change: FileChange, batchId: string = discardTrash.newBatch()): Promise<boolean> {
+    const discarded = await discardTrash.capture(change, batchId);
+    const success = change.changeType === 'renamed'
+        ? await snapshotManager.revertRename(change)
+        : await snapshotManager.revertFile(change.uri);
+    if (success) {
+        if (discarded) {
+            discardTrash.add(discarded);
+        }
+        reviewNotes.archive(getChangeUris(change));
+        viewedFiles.forget(getChangeUris(change));
+    }
+    return success;
+}
+
 async function discardFile(item?: ChangedFileItem | { change: any }): Promise<void> {
     let uri: vscode.Uri | undefined;
     let relativePath: string = '';
@@ -214,11 +471,16 @@ async function discardFile(item?: ChangedFileItem | { change: any }): Promise<vo
 
     if (!uri) return;
 
+    const target = uri;
+    const change = (await snapshotManager.getChangedFiles()).find(c => c.uri.fsPath === target.fsPath);
+
     let confirmMessage = `Revert ${relativePath}?`;
     if (changeType === 'created') {
         confirmMessage = `Delete new file ${relativePath}?`;
     } else if (changeType === 'deleted') {
         confirmMessage = `Restore deleted file ${relativePath}?`;
+    } else if (change?.changeType === 'renamed') {
+        confirmMessage = `Move ${relativePath} back to ${change.previousRelativePath}?`;
     }
 
     const confirm = await vscode.window.showWarningMessage(
@@ -228,7 +490,7 @@ async function discardFile(item?: ChangedFileItem | { change: any }): Promise<vo
     );
 
     if (confirm === 'Yes') {
-        const success = await snapshotManager.revertFile(uri);
+        const success = change ? await undoChange(change) : await snapshotManager.revertFile(uri);
         treeProvider.refresh();
         sidebarProvider.refresh();
         
@@ -238,52 +500,262 @@ async function discardFile(item?: ChangedFileItem | { change: any }): Promise<vo
     }
 }
 
-async function acceptAllFiles(): Promise<void> {
-    const changes = await snapshotManager.getChangedFiles();
+async function acceptHunk(args?: { uri: string; hunk: DiffHunk }): Promise<void> {
+    if (!args?.uri || !args.hunk) return;
+
+    const uri = vscode.Uri.file(args.uri);
+    const success = await snapshotManager.acceptHunk(uri, args.hunk, (u, content) => {
+        fileWatcher.updateFileCache(u, content);
+    });
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+
+    if (!success) {
+        vscode.window.showWarningMessage('This change is no longer pending - the file was modified. Refresh and try again.');
+    }
+}
+
+async function discardHunk(args?: { uri: string; hunk: DiffHunk }): Promise<void> {
+    if (!args?.uri || !args.hunk) return;
+
+    const uri = vscode.Uri.file(args.uri);
+    // Keep the whole file as it was, so Redo can bring the hunk back
+    const [change] = await getChangesByPath([uri.fsPath]);
+    const discarded = change && await discardTrash.capture(change, discardTrash.newBatch());
+    const success = await snapshotManager.revertHunk(uri, args.hunk);
+    if (success && discarded) {
+        discarded.revertedContent = await snapshotManager.getCurrentContent(uri) ?? undefined;
+        discardTrash.add(discarded);
+    }
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+
+    if (!success) {
+        vscode.window.showErrorMessage(`Failed to revert change in: ${vscode.workspace.asRelativePath(uri)}`);
+    }
+}
+
+/**
+ * The panel passes the files its filter shows, so the filtered set can be kept on its own
+ */
+async function acceptAllFiles(folder?: string, filter?: { uris?: string[] }): Promise<void> {
+    // Command palette and keybinding invocations may pass other arguments - act on everything
+    folder = typeof folder === 'string' ? folder : undefined;
+    const changes = await getChangesInFolder(folder);
+    await keepChanges(changes, folder, getFilteredChanges(changes, filter));
+}
+
+/**
+ * Keep the files selected in the panel
+ */
+async function acceptSelected(args?: { uris?: string[] }): Promise<void> {
+    if (!args?.uris?.length) return;
+    await keepChanges(await getChangesByPath(args.uris));
+}
+
+/**
+ * Keep every change under a folder of the tree layout
+ */
+async function acceptDirectory(args?: { path?: string }): Promise<void> {
+    if (!args?.path) return;
+    await keepChanges(await getChangesUnder(args.path), path.basename(args.path));
+}
+
+async function keepChanges(changes: FileChange[], scope?: string, filtered?: FileChange[]): Promise<void> {
     if (changes.length === 0) {
         vscode.window.showInformationMessage('No pending changes');
         return;
     }
 
-    const confirm = await vscode.window.showWarningMessage(
-        `Accept all changes in ${changes.length} files?`,
-        { modal: true },
-        'Accept All'
-    );
+    const confirm = filtered
+        ? await vscode.window.showWarningMessage(
+            `Accept changes in the ${filtered.length} files matching the filter, or in all ${changes.length} files${scope ? ` in ${scope}` : ''}?`,
+            { modal: true },
+            'Accept Filtered',
+            'Accept All'
+        )
+        : await vscode.window.showWarningMessage(
+            `Accept all changes in ${changes.length} files${scope ? ` in ${scope}` : ''}?`,
+            { modal: true },
+            'Accept All'
+        );
+    const targets = confirm === 'Accept Filtered' ? filtered : confirm === 'Accept All' ? changes : undefined;
 
-    if (confirm === 'Accept All') {
-        for (const change of changes) {
-            await snapshotManager.acceptAndUpdateBaseline(change.uri, (u, content) => {
-                fileWatcher.updateFileCache(u, content);
-            });
+    if (targets) {
+        for (const change of targets) {
+            await keepChange(change);
         }
+        await stageKeptChanges(targets);
         treeProvider.refresh();
         sidebarProvider.refresh();
     }
 }
 
-async function discardAllFiles(): Promise<void> {
-    const changes = await snapshotManager.getChangedFiles();
+/**
+ * Stage kept files in git when `stageOnKeep` is on for their folder
+ */
+async function stageKeptChanges(changes: FileChange[]): Promise<void> {
+    const uris = changes
+        .filter(c => vscode.workspace.getConfiguration('pendingChanges', c.uri).get<boolean>('stageOnKeep', false))
+        .flatMap(getChangeUris);
+    if (uris.length === 0) return;
+
+    try {
+        await gitIntegration.stage(uris);
+    } catch (error) {
+        console.error('Failed to stage kept files', error);
+        vscode.window.showWarningMessage(`Kept, but could not stage in git: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+async function keepAndCommit(folder?: string): Promise<void> {
+    folder = typeof folder === 'string' ? folder : undefined;
+    const changes = await getChangesInFolder(folder);
     if (changes.length === 0) {
         vscode.window.showInformationMessage('No pending changes');
         return;
     }
 
-    const confirm = await vscode.window.showWarningMessage(
-        `Revert all ${changes.length} files? This cannot be undone.`,
-        { modal: true },
-        'Revert All'
-    );
+    const message = await vscode.window.showInputBox({
+        prompt: `Keep ${changes.length} file(s) and commit only them`,
+        placeHolder: 'Commit message',
+        value: getCommitSummary(changes),
+        validateInput: value => value.trim() ? undefined : 'Enter a commit message'
+    });
+    if (!message) return;
+
+    for (const change of changes) {
+        await keepChange(change);
+    }
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+
+    try {
+        await gitIntegration.commit(changes.flatMap(getChangeUris), message.trim());
+        vscode.window.showInformationMessage(`Committed ${changes.length} file(s)`);
+    } catch (error) {
+        console.error('Failed to commit kept files', error);
+        vscode.window.showErrorMessage(`Kept, but the commit failed: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Both locations of a move, the file itself otherwise
+ */
+function getChangeUris(change: FileChange): vscode.Uri[] {
+    return change.previousUri ? [change.previousUri, change.uri] : [change.uri];
+}
+
+/**
+ * One-line commit message describing the changed files, e.g. "Update a.ts, b.ts and 2 more"
+ */
+function getCommitSummary(changes: FileChange[]): string {
+    const verbs: Record<FileChange['changeType'], string> = {
+        modified: 'Update',
+        created: 'Add',
+        deleted: 'Remove',
+        renamed: 'Rename'
+    };
+    const types = new Set(changes.map(c => c.changeType));
+    const verb = types.size === 1 ? verbs[changes[0].changeType] : 'Update';
+    return `${verb} ${formatPathList(changes.map(c => path.basename(c.relativePath)))}`;
+}
+
+async function discardAllFiles(folder?: string, filter?: { uris?: string[] }): Promise<void> {
+    // Command palette and keybinding invocations may pass other arguments - act on everything
+    folder = typeof folder === 'string' ? folder : undefined;
+    const changes = await getChangesInFolder(folder);
+    await undoChanges(changes, folder, getFilteredChanges(changes, filter));
+}
+
+/**
+ * Undo the files selected in the panel
+ */
+async function discardSelected(args?: { uris?: string[] }): Promise<void> {
+    if (!args?.uris?.length) return;
+    await undoChanges(await getChangesByPath(args.uris));
+}
+
+/**
+ * Undo every change under a folder of the tree layout
+ */
+async function discardDirectory(args?: { path?: string }): Promise<void> {
+    if (!args?.path) return;
+    await undoChanges(await getChangesUnder(args.path), path.basename(args.path));
+}
+
+async function undoChanges(changes: FileChange[], scope?: string, filtered?: FileChange[]): Promise<void> {
+    if (changes.length === 0) {
+        vscode.window.showInformationMessage('No pending changes');
+        return;
+    }
+
+    const confirm = filtered
+        ? await vscode.window.showWarningMessage(
+            `Revert the ${filtered.length} files matching the filter, or all ${changes.length} files${scope ? ` in ${scope}` : ''}? Their current versions can be restored from Recently Discarded.`,
+            { modal: true },
+            'Revert Filtered',
+            'Revert All'
+        )
+        : await vscode.window.showWarningMessage(
+            `Revert all ${changes.length} files${scope ? ` in ${scope}` : ''}? Their current versions can be restored from Recently Discarded.`,
+            { modal: true },
+            'Revert All'
+        );
+    const targets = confirm === 'Revert Filtered' ? filtered : confirm === 'Revert All' ? changes : undefined;
 
-    if (confirm === 'Revert All') {
-        for (const change of changes) {
-            await snapshotManager.revertFile(change.uri);
+    if (targets) {
+        const batchId = discardTrash.newBatch();
+        for (const change of targets) {
+            await undoChange(change, batchId);
         }
         treeProvider.refresh();
         sidebarProvider.refresh();
     }
 }
 
+/**
+ * Pending changes, optionally limited to one workspace folder (by name)
+ */
+async function getChangesInFolder(folder?: string): Promise<FileChange[]> {
+    const changes = await snapshotManager.getChangedFiles();
+    if (folder === undefined) return changes;
+    return changes.filter(c => c.workspaceFolder === folder);
+}
+
+/**
+ * The part of a Keep All / Undo All that the panel's filter shows, when that is only some of it
+ */
+function getFilteredChanges(changes: FileChange[], filter?: { uris?: string[] }): FileChange[] | undefined {
+    if (!Array.isArray(filter?.uris)) return undefined;
+    const paths = new Set(filter.uris);
+    const filtered = changes.filter(c => paths.has(c.uri.fsPath));
+    return filtered.length > 0 && filtered.length < changes.length ? filtered : undefined;
+}
+
+async function getChangesByPath(fsPaths: string[]): Promise<FileChange[]> {
+    const paths = new Set(fsPaths);
+    return (await snapshotManager.getChangedFiles()).filter(c => paths.has(c.uri.fsPath));
+}
+
+/**
+ * Pending changes inside a directory (by absolute path), at any depth
+ */
+async function getChangesUnder(directory: string): Promise<FileChange[]> {
+    const prefix = directory.endsWith(path.sep) ? directory : directory + path.sep;
+    const changes = await snapshotManager.getChangedFiles();
+    return changes.filter(c => c.uri.fsPath.startsWith(prefix));
+}
+
+/**
+ * Switch the changes webviews between the flat list and the folder tree
+ */
+async function toggleLayout(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('pendingChanges');
+    const layout = config.get<string>('layout', 'list') === 'tree' ? 'list' : 'tree';
+    await config.update('layout', layout, vscode.ConfigurationTarget.Global);
+}
+
 async function showDiff(item?: ChangedFileItem | { change: any }): Promise<void> {
     let change: any;
     
@@ -316,11 +788,671 @@ async function showDiff(item?: ChangedFileItem | { change: any }): Promise<void>
     }
 }
 
+async function createCheckpoint(): Promise<void> {
+    const name = await vscode.window.showInputBox({
+        prompt: 'Checkpoint name',
+        value: `Checkpoint ${checkpointManager.getCheckpoints().filter(c => !c.auto).length + 1}`
+    });
+    if (!name) return;
+
+    const checkpoint = await checkpointManager.createCheckpoint(name);
+    vscode.window.showInformationMessage(`Checkpoint "${checkpoint.name}" saved: ${checkpoint.files.size} files`);
+}
+
+async function rollbackToCheckpoint(id?: string): Promise<void> {
+    const checkpoint = await pickCheckpoint(id, 'Select checkpoint to roll back to');
+    if (!checkpoint) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Roll back all tracked files to "${checkpoint.name}"? Edits made since then will be lost.`,
+        { modal: true },
+        'Roll Back'
+    );
+    if (confirm !== 'Roll Back') return;
+
+    const failed = await checkpointManager.rollback(checkpoint);
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+
+    if (failed.length > 0) {
+        vscode.window.showErrorMessage(`Failed to roll back: ${failed.join(', ')}`);
+    }
+}
+
+async function diffCheckpoint(id?: string): Promise<void> {
+    const checkpoint = await pickCheckpoint(id, 'Select checkpoint to compare with');
+    if (!checkpoint) return;
+
+    const changes = await checkpointManager.getChangesSince(checkpoint);
+    if (changes.length === 0) {
+        vscode.window.showInformationMessage(`No changes since "${checkpoint.name}"`);
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        changes.map(c => ({
+            label: c.relativePath,
+            description: `${c.changeType} +${c.additions} -${c.deletions}`,
+            change: c
+        })),
+        { placeHolder: `Changes since "${checkpoint.name}"` }
+    );
+    if (!selected) return;
+
+    await diffViewer.showDiff(selected.change, checkpoint.name);
+}
+
+async function deleteCheckpoint(id?: string): Promise<void> {
+    const checkpoint = await pickCheckpoint(id, 'Select checkpoint to delete');
+    if (!checkpoint) return;
+
+    checkpointManager.deleteCheckpoint(checkpoint.id);
+}
+
+async function pickCheckpoint(id: string | undefined, placeHolder: string): Promise<Checkpoint | undefined> {
+    if (typeof id === 'string') {
+        return checkpointManager.getCheckpoint(id);
+    }
+
+    const checkpoints = checkpointManager.getCheckpoints().reverse();
+    if (checkpoints.length === 0) {
+        vscode.window.showInformationMessage('No checkpoints');
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        checkpoints.map(c => ({
+            label: c.name,
+            description: `${c.createdAt.toLocaleTimeString()} · ${c.files.size} files`,
+            checkpoint: c
+        })),
+        { placeHolder }
+    );
+    return selected?.checkpoint;
+}
+
+async function compareVersions(args?: { uri?: string; from?: number; to?: number }): Promise<void> {
+    const uri = args?.uri ? vscode.Uri.file(args.uri) : await pickFileWithVersions();
+    if (!uri) return;
+
+    const versions = versionHistory.getVersions(uri);
+    const to = args?.to !== undefined
+        ? versions.find(v => v.index === args.to)
+        : await pickVersion(versions, 'Select the newer version');
+    if (!to) return;
+
+    const from = args?.from !== undefined
+        ? versions.find(v => v.index === args.from)
+        : await pickVersion(versions.filter(v => v !== to), `Compare ${getVersionLabel(to)} with...`);
+    if (!from) return;
+
+    await diffViewer.showVersionDiff(
+        uri,
+        vscode.workspace.asRelativePath(uri),
+        { label: getVersionLabel(from), content: from.content ?? '' },
+        { label: getVersionLabel(to), content: to.content ?? '' }
+    );
+}
+
+async function restoreVersion(args?: { uri?: string; version?: number }): Promise<void> {
+    const uri = args?.uri ? vscode.Uri.file(args.uri) : await pickFileWithVersions();
+    if (!uri) return;
+
+    const versions = versionHistory.getVersions(uri);
+    const version = args?.version !== undefined
+        ? versions.find(v => v.index === args.version)
+        : await pickVersion(versions, 'Select version to restore');
+    if (!version) return;
+
+    const relativePath = vscode.workspace.asRelativePath(uri);
+    const confirm = await vscode.window.showWarningMessage(
+        `Restore ${relativePath} to ${getVersionLabel(version)}?`,
+        { modal: true },
+        'Restore'
+    );
+    if (confirm !== 'Restore') return;
+
+    const success = await snapshotManager.writeFileContent(uri, version.content);
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+
+    if (!success) {
+        vscode.window.showErrorMessage(`Failed to restore: ${relativePath}`);
+    }
+}
+
+async function pickFileWithVersions(): Promise<vscode.Uri | undefined> {
+    const changes = (await snapshotManager.getChangedFiles())
+        .filter(c => versionHistory.getVersions(c.uri).length > 1);
+    if (changes.length === 0) {
+        vscode.window.showInformationMessage('No recorded versions');
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        changes.map(c => ({
+            label: c.relativePath,
+            description: `${versionHistory.getVersions(c.uri).length} versions`,
+            uri: c.uri
+        })),
+        { placeHolder: 'Select file' }
+    );
+    return selected?.uri;
+}
+
+async function pickVersion(versions: FileVersion[], placeHolder: string): Promise<FileVersion | undefined> {
+    // Newest first, like a timeline
+    const selected = await vscode.window.showQuickPick(
+        [...versions].reverse().map(v => ({
+            label: getVersionLabel(v),
+            description: v.index === 0 ? v.time.toLocaleTimeString() : `+${v.additions} -${v.deletions}`,
+            version: v
+        })),
+        { placeHolder }
+    );
+    return selected?.version;
+}
+
+async function exportPatch(args?: { uri?: string; uris?: string[] }): Promise<void> {
+    const allChanges = await snapshotManager.getChangedFiles();
+    if (allChanges.length === 0) {
+        vscode.window.showInformationMessage('No pending changes to export');
+        return;
+    }
+
+    let changes = allChanges;
+    const requested = args?.uris ?? (args?.uri ? [args.uri] : undefined);
+    if (requested) {
+        changes = allChanges.filter(c => requested.includes(c.uri.fsPath));
+    } else if (allChanges.length > 1) {
+        const scope = await vscode.window.showQuickPick(
+            [
+                { label: 'All Pending Changes', description: `${allChanges.length} files`, all: true },
+                { label: 'Choose Files...', all: false }
+            ],
+            { placeHolder: 'What to export' }
+        );
+        if (!scope) return;
+
+        if (!scope.all) {
+            const selected = await vscode.window.showQuickPick(
+                allChanges.map(c => ({
+                    label: c.relativePath,
+                    description: c.binary ? c.changeType : `+${c.additions} -${c.deletions}`,
+                    change: c
+                })),
+                { placeHolder: 'Select files to export', canPickMany: true }
+            );
+            if (!selected || selected.length === 0) return;
+            changes = selected.map(s => s.change);
+        }
+    }
+    if (changes.length === 0) return;
+
+    const destination = await vscode.window.showQuickPick(
+        ['Save to File...', 'Copy to Clipboard'],
+        { placeHolder: `Export ${changes.length} file(s) as a patch` }
+    );
+    if (!destination) return;
+
+    let patch: string;
+    try {
+        patch = await createPatch(changes);
+    } catch (error) {
+        console.error('Failed to create patch', error);
+        vscode.window.showErrorMessage('Failed to create patch - a changed file could not be read');
+        return;
+    }
+
+    if (destination === 'Copy to Clipboard') {
+        await vscode.env.clipboard.writeText(patch);
+        vscode.window.showInformationMessage(`Copied a patch of ${changes.length} file(s) to the clipboard`);
+        return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder.uri, 'pending-changes.patch') : undefined,
+        filters: { 'Patch Files': ['patch', 'diff'] }
+    });
+    if (!target) return;
+
+    try {
+        await vscode.workspace.fs.writeFile(target, Buffer.from(patch, 'utf-8'));
+        vscode.window.showInformationMessage(`Exported ${changes.length} file(s) to ${path.basename(target.fsPath)}`);
+    } catch (error) {
+        console.error(`Failed to write patch: ${target.fsPath}`, error);
+        vscode.window.showErrorMessage(`Failed to write ${target.fsPath}`);
+    }
+}
+
+async function importPatch(): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showWarningMessage('Open a folder to import a patch into');
+        return;
+    }
+
+    const selected = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Import Patch',
+        filters: { 'Patch Files': ['patch', 'diff'], 'All Files': ['*'] }
+    });
+    if (!selected || selected.length === 0) return;
+
+    const patchName = path.basename(selected[0].fsPath);
+    let patches: FilePatch[];
+    try {
+        patches = parsePatch(await fs.promises.readFile(selected[0].fsPath, 'utf-8'));
+    } catch (error) {
+        console.error(`Failed to read patch: ${selected[0].fsPath}`, error);
+        vscode.window.showErrorMessage(`Failed to read ${patchName}`);
+        return;
+    }
+    if (patches.length === 0) {
+        vscode.window.showWarningMessage(`No file changes found in ${patchName}`);
+        return;
+    }
+
+    const report = await applyPatch(snapshotManager, patches);
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+
+    if (report.failed.length === 0) {
+        vscode.window.showInformationMessage(`Applied ${patchName} to ${report.applied.length} file(s) - review them in Pending Changes`);
+        return;
+    }
+
+    vscode.window.showWarningMessage(
+        `Applied ${patchName} to ${report.applied.length} file(s); ${report.failed.length} file(s) did not apply cleanly`,
+        { modal: true, detail: report.failed.map(f => `${f.path}: ${f.reason}`).join('\n') }
+    );
+}
+
+async function ignorePath(target?: vscode.Uri | { uri: string }): Promise<void> {
+    const uri = target instanceof vscode.Uri
+        ? target
+        : target?.uri ? vscode.Uri.file(target.uri) : vscode.window.activeTextEditor?.document.uri;
+    if (!uri || uri.scheme !== 'file') return;
+
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+        vscode.window.showWarningMessage('Only files inside a workspace folder can be ignored');
+        return;
+    }
+
+    // Offer the file itself and each folder above it, innermost first
+    const relativePath = path.relative(folder.uri.fsPath, uri.fsPath).replace(/\\/g, '/');
+    const segments = relativePath.split('/');
+    const choices = [{ label: `$(file) ${relativePath}`, description: 'This file', pattern: `/${relativePath}` }];
+    for (let depth = segments.length - 1; depth > 0; depth--) {
+        const dir = segments.slice(0, depth).join('/');
+        choices.push({ label: `$(folder) ${dir}/`, description: 'This folder', pattern: `/${dir}/` });
+    }
+
+    const selected = await vscode.window.showQuickPick(choices, { placeHolder: `Add to ${IGNORE_FILE}` });
+    if (!selected) return;
+
+    const success = await pathFilter.addIgnorePattern(folder, selected.pattern);
+    if (!success) {
+        vscode.window.showErrorMessage(`Failed to update ${IGNORE_FILE}`);
+        return;
+    }
+
+    // Pending changes under the ignored path stay on disk but are no longer reviewed
+    const untracked = snapshotManager.untrackExcluded();
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+    vscode.window.showInformationMessage(
+        untracked > 0
+            ? `Ignoring ${selected.pattern} - ${untracked} file(s) no longer tracked`
+            : `Ignoring ${selected.pattern}`
+    );
+}
+
+async function toggleViewed(args?: { uri?: string; viewed?: boolean }): Promise<void> {
+    if (!args?.uri) return;
+
+    const change = (await snapshotManager.getChangedFiles()).find(c => c.uri.fsPath === args.uri);
+    if (change) {
+        viewedFiles.setViewed(change, args.viewed ?? !viewedFiles.isViewed(change));
+    }
+}
+
+/**
+ * Add a note on a whole file (line notes are written in the diff editor's comment threads)
+ */
+async function addNote(args?: { uri?: string }): Promise<void> {
+    let uri = args?.uri ? vscode.Uri.file(args.uri) : undefined;
+
+    if (!uri) {
+        const changes = await snapshotManager.getChangedFiles();
+        if (changes.length === 0) {
+            vscode.window.showInformationMessage('No pending changes');
+            return;
+        }
+        const selected = await vscode.window.showQuickPick(
+            changes.map(c => ({
+                label: c.relativePath,
+                description: `${c.changeType} +${c.additions} -${c.deletions}`,
+                uri: c.uri
+            })),
+            { placeHolder: 'Select file to add a note to' }
+        );
+        if (!selected) return;
+        uri = selected.uri;
+    }
+
+    const body = await vscode.window.showInputBox({
+        prompt: `Review note on ${vscode.workspace.asRelativePath(uri)}`,
+        placeHolder: 'What should change in this file?'
+    });
+    if (!body?.trim()) return;
+
+    reviewNotes.addFileNote(uri, body);
+}
+
+async function deleteNote(target?: NoteComment | { id: string }): Promise<void> {
+    const id = target instanceof NoteComment ? target.note.id : target?.id;
+    if (id) {
+        reviewNotes.deleteNote(id);
+    }
+}
+
+/**
+ * Open the diff a note was written on, at its line
+ */
+async function openNote(args?: { id?: string }): Promise<void> {
+    const note = reviewNotes.getNotes().find(n => n.id === args?.id);
+    if (!note) return;
+
+    const change = (await snapshotManager.getChangedFiles()).find(c => c.uri.fsPath === note.fsPath);
+    if (!change) {
+        vscode.window.showInformationMessage(`${note.relativePath} has no pending changes anymore`);
+        return;
+    }
+    await diffViewer.showDiff(change);
+
+    const editor = vscode.window.activeTextEditor;
+    if (note.line !== undefined && note.side === 'current' && editor?.document.uri.fsPath === note.fsPath) {
+        const position = new vscode.Position(Math.min(note.line, editor.document.lineCount - 1), 0);
+        editor.selection = new vscode.Selection(position, position);
+        editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+}
+
+async function exportReview(): Promise<void> {
+    const notes = reviewNotes.getNotes();
+    if (notes.length === 0) {
+        vscode.window.showInformationMessage('No review notes');
+        return;
+    }
+
+    const destination = await vscode.window.showQuickPick(
+        ['Copy to Clipboard', 'Save to File...'],
+        { placeHolder: `Export ${notes.length} review note(s) as Markdown` }
+    );
+    if (!destination) return;
+
+    const review = reviewNotes.toMarkdown();
+    if (destination === 'Copy to Clipboard') {
+        await vscode.env.clipboard.writeText(review);
+        vscode.window.showInformationMessage(`Copied ${notes.length} review note(s) to the clipboard`);
+        return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder.uri, 'review.md') : undefined,
+        filters: { 'Markdown': ['md'] }
+    });
+    if (!target) return;
+
+    try {
+        await vscode.workspace.fs.writeFile(target, Buffer.from(review, 'utf-8'));
+        vscode.window.showInformationMessage(`Exported ${notes.length} review note(s) to ${path.basename(target.fsPath)}`);
+    } catch (error) {
+        console.error(`Failed to write review: ${target.fsPath}`, error);
+        vscode.window.showErrorMessage(`Failed to write ${target.fsPath}`);
+    }
+}
+
+/**
+ * Bring back one discarded version as a pending change
+ */
+async function restoreDiscarded(args?: { id?: string }): Promise<void> {
+    let entry = args?.id ? discardTrash.getEntry(args.id) : undefined;
+    if (!entry) {
+        const entries = discardTrash.getEntries();
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('Nothing has been discarded');
+            return;
+        }
+        const selected = await vscode.window.showQuickPick(
+            entries.map(e => ({
+                label: e.relativePath,
+                description: `${e.changeType}, discarded ${new Date(e.discardedAt).toLocaleString()}`,
+                entry: e
+            })),
+            { placeHolder: 'Select a discarded change to restore' }
+        );
+        entry = selected?.entry;
+    }
+    if (!entry) return;
+
+    await restoreEntries([entry]);
+}
+
+/**
+ * Take back the last Undo or Undo All as a whole
+ */
+async function redoUndo(): Promise<void> {
+    const entries = discardTrash.getLastBatch();
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('Nothing to redo');
+        return;
+    }
+    await restoreEntries(entries);
+}
+
+async function restoreEntries(entries: DiscardedFile[]): Promise<void> {
+    const conflicts = await discardTrash.getConflicts(entries);
+    if (conflicts.length > 0) {
+        const confirm = await vscode.window.showWarningMessage(
+            `${formatPathList(conflicts)} changed since the undo. Overwrite with the discarded version?`,
+            { modal: true },
+            'Overwrite'
+        );
+        if (confirm !== 'Overwrite') return;
+    }
+
+    const failed = await discardTrash.restore(entries);
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+
+    if (failed.length > 0) {
+        vscode.window.showErrorMessage(`Failed to restore: ${failed.join(', ')}`);
+    } else {
+        vscode.window.showInformationMessage(entries.length === 1
+            ? `Restored ${entries[0].relativePath}`
+            : `Restored ${entries.length} files`);
+    }
+}
+
+async function clearDiscarded(): Promise<void> {
+    const count = discardTrash.getEntries().length;
+    if (count === 0) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Permanently delete ${count} discarded version(s)?`,
+        { modal: true },
+        'Delete'
+    );
+    if (confirm === 'Delete') {
+        discardTrash.clear();
+    }
+}
+
+/**
+ * Set every pending change aside under a name, reverting the files to their baselines
+ */
+async function shelveChanges(): Promise<void> {
+    const changes = await snapshotManager.getChangedFiles();
+    if (changes.length === 0) {
+        vscode.window.showInformationMessage('No pending changes');
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: `Shelve ${changes.length} file(s): revert them and keep the changes under a name`,
+        placeHolder: 'Shelf name',
+        value: getCommitSummary(changes),
+        validateInput: value => value.trim() ? undefined : 'Enter a name for the shelf'
+    });
+    if (!name) return;
+
+    const { shelf, failed } = await shelfManager.shelve(name.trim(), changes);
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+
+    if (failed.length > 0) {
+        vscode.window.showErrorMessage(`Failed to shelve: ${formatPathList(failed)}`);
+    } else if (shelf) {
+        vscode.window.showInformationMessage(`Shelved ${shelf.files.length} file(s) as "${shelf.name}"`);
+    }
+}
+
+async function unshelve(args?: { id?: string }): Promise<void> {
+    const shelf = await pickShelf(args?.id, 'Select shelf to unshelve');
+    if (!shelf) return;
+
+    // Files changed since shelving are only overwritten when asked to
+    let overwrite = false;
+    const conflicts = await shelfManager.getConflicts(shelf);
+    if (conflicts.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `${formatPathList(conflicts)} changed since "${shelf.name}" was shelved. Leave them on the shelf as conflicts, or overwrite them?`,
+            { modal: true },
+            'Skip Conflicts',
+            'Overwrite'
+        );
+        if (!choice) return;
+        overwrite = choice === 'Overwrite';
+    }
+
+    const result = await shelfManager.unshelve(shelf, overwrite);
+    treeProvider.refresh();
+    sidebarProvider.refresh();
+
+    if (result.failed.length > 0) {
+        vscode.window.showErrorMessage(`Failed to unshelve: ${formatPathList(result.failed)}`);
+    } else if (result.conflicts.length > 0) {
+        vscode.window.showWarningMessage(`Unshelved ${result.restored.length} file(s); ${result.conflicts.length} conflicting file(s) stay on "${shelf.name}"`);
+    } else {
+        vscode.window.showInformationMessage(`Unshelved ${result.restored.length} file(s) from "${shelf.name}"`);
+    }
+}
+
+async function deleteShelf(args?: { id?: string }): Promise<void> {
+    const shelf = await pickShelf(args?.id, 'Select shelf to delete');
+    if (!shelf) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Delete shelf "${shelf.name}" and the ${shelf.files.length} change(s) on it?`,
+        { modal: true },
+        'Delete'
+    );
+    if (confirm === 'Delete') {
+        shelfManager.deleteShelf(shelf.id);
+    }
+}
+
+async function pickShelf(id: string | undefined, placeHolder: string): Promise<Shelf | undefined> {
+    if (typeof id === 'string') {
+        return shelfManager.getShelf(id);
+    }
+
+    const shelves = shelfManager.getShelves();
+    if (shelves.length === 0) {
+        vscode.window.showInformationMessage('No shelves');
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        shelves.map(shelf => ({
+            label: shelf.name,
+            description: `${shelf.files.length} file(s), ${new Date(shelf.createdAt).toLocaleString()}`,
+            detail: shelf.files.some(f => f.conflict) ? 'Has conflicts' : undefined,
+            shelf
+        })),
+        { placeHolder }
+    );
+    return selected?.shelf;
+}
+
+/**
+ * The API handed to other extensions. Keep and Undo act right away - the caller decides what to ask.
+ */
+function createApi(context: vscode.ExtensionContext): PendingChangesApi {
+    const onDidChangePendingChanges = new vscode.EventEmitter<void>();
+    context.subscriptions.push(
+        onDidChangePendingChanges,
+        snapshotManager.onSnapshotsChanged(() => onDidChangePendingChanges.fire()),
+        fileWatcher.onFileChanged(() => onDidChangePendingChanges.fire())
+    );
+
+    const getChangesFor = async (uris: vscode.Uri[]) => {
+        const paths = new Set(uris.map(uri => uri.fsPath));
+        return (await snapshotManager.getChangedFiles())
+            .filter(c => getChangeUris(c).some(uri => paths.has(uri.fsPath)));
+    };
+
+    return {
+        version: 1,
+        onDidChangePendingChanges: onDidChangePendingChanges.event,
+        getPendingChanges: async () => (await snapshotManager.getChangedFiles()).map(toPendingChange),
+        snapshot: async uris => {
+            await snapshotManager.snapshotFiles(uris.filter(uri => uri.scheme === 'file'));
+        },
+        beginSession: async name => {
+            const { id, startedAt } = await sessionManager.begin(name);
+            return { id, name, startedAt };
+        },
+        endSession: async id => {
+            const changes = await sessionManager.end(id);
+            if (!changes) {
+                throw new Error(`No active session with id ${id}`);
+            }
+            return changes.map(toPendingChange);
+        },
+        getActiveSessions: () => sessionManager.getActiveSessions().map(({ id, name, startedAt }) => ({ id, name, startedAt })),
+        keep: async uris => {
+            const changes = await getChangesFor(uris);
+            for (const change of changes) {
+                await keepChange(change);
+            }
+            await stageKeptChanges(changes);
+            refresh();
+        },
+        undo: async uris => {
+            const batchId = discardTrash.newBatch();
+            const failed: string[] = [];
+            for (const change of await getChangesFor(uris)) {
+                if (!await undoChange(change, batchId)) {
+                    failed.push(change.relativePath);
+                }
+            }
+            refresh();
+            return failed;
+        }
+    };
+}
+
 function refresh(): void {
     treeProvider.refresh();
     sidebarProvider.refresh();
 }
 
-export function deactivate() {
-    // Cleanup is handled by disposables
+export function deactivate(): Promise<void> | undefined {
+    // Cleanup is handled by disposables - just make sure the last changes hit the store
+    return snapshotManager?.flush();
 }
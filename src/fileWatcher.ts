@@ -1,16 +1,36 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import { SnapshotManager } from './snapshotManager';
+import { SnapshotManager, ChangeOrigin } from './snapshotManager';
+
+// Upper bounds for pre-reading binary files, which can't be recovered from an editor buffer
+const MAX_BINARY_CACHE_BYTES = 64 * 1024 * 1024;
+const MAX_BINARY_FILES_PER_PATTERN = 2000;
+
+// How long after VS Code saves or moves a file the watcher events are put down to it
+const WRITE_SOURCE_GRACE_MS = 2000;
+
+/**
+ * A disk write VS Code itself is about to make, as opposed to one from outside the editor
+ */
+type WriteSource = 'save' | 'fileOperation';
 
 export class FileWatcher implements vscode.Disposable {
     private watchers: vscode.FileSystemWatcher[] = [];
     private isTracking = false;
     private snapshotManager: SnapshotManager;
-    private config: vscode.WorkspaceConfiguration;
     private disposables: vscode.Disposable[] = [];
     
     // Cache file contents to capture "before" state
     private fileContentCache: Map<string, string> = new Map();
+
+    // Binary files are read up front - there's no open document to take the "before" bytes from
+    private binaryContentCache: Map<string, Buffer> = new Map();
+    private binaryCacheSize = 0;
+
+    private writeSources: Map<string, { source: WriteSource; until: number }> = new Map();
+
+    // Kinds of unsaved edits to untracked documents, recorded once saving starts tracking them
+    private editOrigins: Map<string, ChangeOrigin[]> = new Map();
     
     private _onTrackingChanged = new vscode.EventEmitter<boolean>();
     readonly onTrackingChanged = this._onTrackingChanged.event;
@@ -20,16 +40,21 @@ export class FileWatcher implements vscode.Disposable {
 
     constructor(snapshotManager: SnapshotManager) {
         this.snapshotManager = snapshotManager;
-        this.config = vscode.workspace.getConfiguration('pendingChanges');
         
         // Listen for configuration changes
         this.disposables.push(
             vscode.workspace.onDidChangeConfiguration(e => {
-                if (e.affectsConfiguration('pendingChanges')) {
-                    this.config = vscode.workspace.getConfiguration('pendingChanges');
-                    if (this.isTracking) {
-                        this.restartWatchers();
-                    }
+                if (e.affectsConfiguration('pendingChanges') && this.isTracking) {
+                    this.restartWatchers();
+                }
+            })
+        );
+
+        // Watch folders that are added to (or stop watching ones removed from) the workspace
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                if (this.isTracking) {
+                    this.restartWatchers();
                 }
             })
         );
@@ -41,6 +66,7 @@ export class FileWatcher implements vscode.Disposable {
         this.isTracking = true;
         this.setupWatchers();
         this.setupDocumentListeners();
+        this.cacheBinaryFiles();
         this._onTrackingChanged.fire(true);
         
         vscode.commands.executeCommand('setContext', 'pendingChanges.isTracking', true);
@@ -52,6 +78,10 @@ export class FileWatcher implements vscode.Disposable {
         this.isTracking = false;
         this.disposeWatchers();
         this.fileContentCache.clear();
+        this.binaryContentCache.clear();
+        this.writeSources.clear();
+        this.editOrigins.clear();
+        this.binaryCacheSize = 0;
         this._onTrackingChanged.fire(false);
         
         vscode.commands.executeCommand('setContext', 'pendingChanges.isTracking', false);
@@ -64,8 +94,12 @@ export class FileWatcher implements vscode.Disposable {
     /**
      * Update the cached content for a file (called after accepting changes)
      */
-    updateFileCache(uri: vscode.Uri, content: string): void {
-        this.fileContentCache.set(uri.fsPath, content);
+    updateFileCache(uri: vscode.Uri, content: string | Buffer): void {
+        if (typeof content === 'string') {
+            this.fileContentCache.set(uri.fsPath, content);
+        } else {
+            this.setBinaryCache(uri.fsPath, content);
+        }
     }
 
     /**
@@ -76,10 +110,29 @@ export class FileWatcher implements vscode.Disposable {
     }
 
     private setupWatchers(): void {
-        const watchPatterns = this.config.get<string[]>('watchPatterns', ['**/*']);
+        const folders = vscode.workspace.workspaceFolders;
+        if (!folders || folders.length === 0) {
+            this.createWatchers(undefined);
+            return;
+        }
+
+        // Each folder can override watchPatterns in its own settings
+        for (const folder of folders) {
+            this.createWatchers(folder);
+        }
+    }
+
+    private createWatchers(folder: vscode.WorkspaceFolder | undefined): void {
+        const config = this.getConfig(folder?.uri);
+        const watchPatterns = [
+            ...config.get<string[]>('watchPatterns', ['**/*']),
+            ...config.get<string[]>('binaryPatterns', [])
+        ];
         
         for (const pattern of watchPatterns) {
-            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                folder ? new vscode.RelativePattern(folder, pattern) : pattern
+            );
             
             // File modified on disk
             watcher.onDidChange(uri => this.handleFileModified(uri));
@@ -95,22 +148,25 @@ export class FileWatcher implements vscode.Disposable {
     }
 
     private setupDocumentListeners(): void {
-        // Capture content BEFORE it's modified (when document is about to change)
+        // Note who changed a document: typing happens in the active editor, while other
+        // documents are changed by refactorings and other workspace edits
         this.disposables.push(
-            vscode.workspace.onDidChangeTextDocument(async (e) => {
+            vscode.workspace.onDidChangeTextDocument(e => {
                 if (!this.isTracking) return;
                 if (e.document.uri.scheme !== 'file') return;
-                if (this.shouldExclude(e.document.uri)) return;
-                
+                if (e.contentChanges.length === 0) return;
+                if (this.shouldExclude(e.document.uri) || this.snapshotManager.isOwnWrite(e.document.uri)) return;
+
+                const origin: ChangeOrigin = vscode.window.activeTextEditor?.document === e.document ? 'edit' : 'refactor';
+                if (this.snapshotManager.hasSnapshot(e.document.uri)) {
+                    this.snapshotManager.recordOrigin(e.document.uri, origin);
+                    return;
+                }
+
                 const key = e.document.uri.fsPath;
-                
-                // If we don't have this file cached and don't have a snapshot,
-                // we need to auto-snapshot it
-                if (!this.snapshotManager.hasSnapshot(e.document.uri) && 
-                    !this.fileContentCache.has(key)) {
-                    // This is the first change - but the document already has the new content
-                    // We can't get the "before" state from here
-                    // The cache should have been populated by onWillSaveTextDocument or file read
+                const origins = this.editOrigins.get(key) ?? [];
+                if (!origins.includes(origin)) {
+                    this.editOrigins.set(key, [...origins, origin]);
                 }
             })
         );
@@ -137,6 +193,12 @@ export class FileWatcher implements vscode.Disposable {
                 const key = e.document.uri.fsPath;
                 const cachedContent = this.fileContentCache.get(key);
                 const currentContent = e.document.getText();
+                const origins = this.editOrigins.get(key) ?? ['edit'];
+                this.editOrigins.delete(key);
+
+                // The disk write that follows is this save, not an external write
+                this.markWriteSource(e.document.uri, 'save');
+                if (this.isExternalOnly(e.document.uri)) return;
                 
                 // If content changed and we don't have a snapshot, create one from cache
                 if (cachedContent !== undefined && 
@@ -144,18 +206,39 @@ export class FileWatcher implements vscode.Disposable {
                     !this.snapshotManager.hasSnapshot(e.document.uri)) {
                     
                     // Create snapshot with the CACHED (original) content
-                    await this.snapshotManager.autoSnapshotBeforeChange(e.document.uri);
-                    
-                    // Update the snapshot's original content to the cached version
-                    // (since autoSnapshotBeforeChange reads current content)
-                    const snapshot = this.snapshotManager.getSnapshot(e.document.uri);
-                    if (snapshot) {
-                        (snapshot as any).originalContent = cachedContent;
+                    await this.snapshotManager.autoSnapshotBeforeChange(e.document.uri, cachedContent);
+                    for (const origin of origins) {
+                        this.snapshotManager.recordOrigin(e.document.uri, origin);
                     }
                 }
             })
         );
 
+        // Cache files that are about to be moved, so the move can be matched
+        // to the file that appears at the new location
+        this.disposables.push(
+            vscode.workspace.onWillRenameFiles(e => {
+                if (!this.isTracking) return;
+                for (const file of e.files) {
+                    this.markWriteSource(file.oldUri, 'fileOperation');
+                    this.markWriteSource(file.newUri, 'fileOperation');
+                }
+                e.waitUntil(Promise.all(e.files.map(file => this.cacheFromDisk(file.oldUri))));
+            })
+        );
+
+        // Files created or deleted through the explorer or a workspace edit
+        this.disposables.push(
+            vscode.workspace.onWillCreateFiles(e => {
+                if (!this.isTracking) return;
+                e.files.forEach(uri => this.markWriteSource(uri, 'fileOperation'));
+            }),
+            vscode.workspace.onWillDeleteFiles(e => {
+                if (!this.isTracking) return;
+                e.files.forEach(uri => this.markWriteSource(uri, 'fileOperation'));
+            })
+        );
+
         // Update cache after save
         this.disposables.push(
             vscode.workspace.onDidSaveTextDocument((doc) => {
@@ -177,73 +260,195 @@ export class FileWatcher implements vscode.Disposable {
         }
     }
 
+    /**
+     * Read binary files matching binaryPatterns so a later overwrite can be undone byte for byte
+     */
+    private async cacheBinaryFiles(): Promise<void> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+
+        for (const folder of folders) {
+            const config = this.getConfig(folder.uri);
+            const maxFileSize = config.get<number>('maxBinaryFileSizeKB', 5120) * 1024;
+
+            for (const pattern of config.get<string[]>('binaryPatterns', [])) {
+                const uris = await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(folder, pattern),
+                    undefined,
+                    MAX_BINARY_FILES_PER_PATTERN
+                );
+
+                for (const uri of uris) {
+                    if (!this.isTracking) return;
+                    if (this.shouldExclude(uri) || this.binaryContentCache.has(uri.fsPath)) continue;
+
+                    try {
+                        const stat = await fs.promises.stat(uri.fsPath);
+                        if (stat.size > maxFileSize) continue;
+                        if (this.binaryCacheSize + stat.size > MAX_BINARY_CACHE_BYTES) return;
+
+                        this.setBinaryCache(uri.fsPath, await fs.promises.readFile(uri.fsPath));
+                    } catch (error) {
+                        // Unreadable - changes to it just won't be tracked
+                    }
+                }
+            }
+        }
+    }
+
+    private setBinaryCache(key: string, bytes: Buffer): void {
+        this.deleteBinaryCache(key);
+        this.binaryContentCache.set(key, bytes);
+        this.binaryCacheSize += bytes.length;
+    }
+
+    private deleteBinaryCache(key: string): void {
+        const existing = this.binaryContentCache.get(key);
+        if (existing) {
+            this.binaryCacheSize -= existing.length;
+            this.binaryContentCache.delete(key);
+        }
+    }
+
+    private async cacheFromDisk(uri: vscode.Uri): Promise<void> {
+        if (uri.scheme !== 'file' || this.shouldExclude(uri)) return;
+        if (this.fileContentCache.has(uri.fsPath)) return;
+
+        try {
+            const stat = await fs.promises.stat(uri.fsPath);
+            if (!stat.isFile()) return;
+            this.fileContentCache.set(uri.fsPath, await fs.promises.readFile(uri.fsPath, 'utf-8'));
+        } catch (error) {
+            // Not readable - the move just won't be paired
+        }
+    }
+
     private async handleFileModified(uri: vscode.Uri): Promise<void> {
         if (this.shouldExclude(uri)) return;
+
+        // Written by our own Undo or restore - already accounted for
+        if (this.snapshotManager.isOwnWrite(uri)) {
+            this._onFileChanged.fire(uri);
+            return;
+        }
+
+        // A save was handled (and its edits recorded) before it hit the disk
+        const source = this.getWriteSource(uri);
+        if (source === 'save' || (source && this.isExternalOnly(uri) && !this.snapshotManager.hasSnapshot(uri))) {
+            this._onFileChanged.fire(uri);
+            return;
+        }
         
         // Auto-snapshot if we don't have one yet
         if (!this.snapshotManager.hasSnapshot(uri)) {
-            const cachedContent = this.fileContentCache.get(uri.fsPath);
+            const cachedContent = this.fileContentCache.get(uri.fsPath) ?? this.binaryContentCache.get(uri.fsPath);
             if (cachedContent !== undefined) {
                 // We have cached content - use it as the original
-                await this.snapshotManager.autoSnapshotBeforeChange(uri);
-                const snapshot = this.snapshotManager.getSnapshot(uri);
-                if (snapshot) {
-                    (snapshot as any).originalContent = cachedContent;
-                }
+                await this.snapshotManager.autoSnapshotBeforeChange(uri, cachedContent);
             }
         }
+        this.snapshotManager.recordOrigin(uri, toOrigin(source));
         
         this._onFileChanged.fire(uri);
     }
 
     private async handleFileCreated(uri: vscode.Uri): Promise<void> {
         if (this.shouldExclude(uri)) return;
+
+        // Created by our own Undo - nothing new to review
+        if (this.snapshotManager.isOwnWrite(uri)) {
+            this._onFileChanged.fire(uri);
+            return;
+        }
+
+        // Created through VS Code while only external writes are tracked - remember
+        // its content so a later external write can be compared against it
+        const source = this.getWriteSource(uri);
+        if (source && this.isExternalOnly(uri)) {
+            await this.cacheFromDisk(uri);
+            this._onFileChanged.fire(uri);
+            return;
+        }
         
         // Track new file - can be reverted by deleting
         this.snapshotManager.trackNewFile(uri);
+        this.snapshotManager.recordOrigin(uri, toOrigin(source));
         this._onFileChanged.fire(uri);
     }
 
     private async handleFileDeleted(uri: vscode.Uri): Promise<void> {
         if (this.shouldExclude(uri)) return;
+
+        // Deleted by our own Undo - nothing new to review
+        if (this.snapshotManager.isOwnWrite(uri)) {
+            this.fileContentCache.delete(uri.fsPath);
+            this._onFileChanged.fire(uri);
+            return;
+        }
         
-        // Get last known content from cache
-        const cachedContent = this.fileContentCache.get(uri.fsPath);
-        
-        // Track deleted file - can be restored
-        await this.snapshotManager.trackDeletedFile(uri, cachedContent);
+        const source = this.getWriteSource(uri);
+        if (!(source && this.isExternalOnly(uri) && !this.snapshotManager.hasSnapshot(uri))) {
+            // Get last known content from cache
+            const cachedContent = this.fileContentCache.get(uri.fsPath) ?? this.binaryContentCache.get(uri.fsPath);
+
+            // Track deleted file - can be restored
+            await this.snapshotManager.trackDeletedFile(uri, cachedContent);
+            this.snapshotManager.recordOrigin(uri, toOrigin(source));
+        }
         
         // Remove from cache
         this.fileContentCache.delete(uri.fsPath);
+        this.deleteBinaryCache(uri.fsPath);
         
         this._onFileChanged.fire(uri);
     }
 
-    private shouldExclude(uri: vscode.Uri): boolean {
-        const excludePatterns = this.config.get<string[]>('excludePatterns', []);
-        const filePath = uri.fsPath.replace(/\\/g, '/');
-        
-        for (const pattern of excludePatterns) {
-            // Simple pattern matching - check if path contains the pattern
-            const cleanPattern = pattern.replace(/\*\*/g, '').replace(/\*/g, '').replace(/\//g, '');
-            if (cleanPattern && filePath.includes(cleanPattern)) {
-                return true;
-            }
+    private markWriteSource(uri: vscode.Uri, source: WriteSource): void {
+        this.writeSources.set(uri.fsPath, { source, until: Date.now() + WRITE_SOURCE_GRACE_MS });
+    }
+
+    /**
+     * What VS Code did to cause a watcher event, or undefined for a write from outside the editor
+     */
+    private getWriteSource(uri: vscode.Uri): WriteSource | undefined {
+        const entry = this.writeSources.get(uri.fsPath);
+        if (!entry) return undefined;
+        if (Date.now() > entry.until) {
+            this.writeSources.delete(uri.fsPath);
+            return undefined;
         }
-        
-        return false;
+        return entry.source;
+    }
+
+    /**
+     * With `trackedSources: external`, only writes from outside the editor start tracking a file
+     */
+    private isExternalOnly(uri: vscode.Uri): boolean {
+        return this.getConfig(uri).get<string>('trackedSources', 'all') === 'external';
+    }
+
+    private getConfig(scope: vscode.Uri | undefined): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('pendingChanges', scope);
+    }
+
+    private shouldExclude(uri: vscode.Uri): boolean {
+        return this.snapshotManager.isExcluded(uri);
     }
 
     private restartWatchers(): void {
-        this.disposeWatchers();
+        // Only the file system watchers - document and config listeners stay in place
+        this.disposeFileSystemWatchers();
         this.setupWatchers();
     }
 
-    private disposeWatchers(): void {
+    private disposeFileSystemWatchers(): void {
         for (const watcher of this.watchers) {
             watcher.dispose();
         }
         this.watchers = [];
+    }
+
+    private disposeWatchers(): void {
+        this.disposeFileSystemWatchers();
         
         for (const disposable of this.disposables) {
             disposable.dispose();
@@ -257,3 +462,8 @@ export class FileWatcher implements vscode.Disposable {
         this._onFileChanged.dispose();
     }
 }
+
+function toOrigin(source: WriteSource | undefined): ChangeOrigin {
+    if (source === 'fileOperation') return 'fileOperation';
+    return source === 'save' ? 'edit' : 'external';
+}
@@ -0,0 +1,70 @@
+import * as path from 'path';
+import { FileChange } from './snapshotManager';
+
+/**
+ * A folder in the tree layout of the changes webviews. Files are indexes into the change list.
+ */
+export interface FolderNode {
+    name: string;             // may span several folders after compaction, e.g. "src/utils"
+    fsPath: string;
+    folders: FolderNode[];
+    files: number[];
+    additions: number;
+    deletions: number;
+}
+
+/**
+ * Arrange changes by folder. Folders holding nothing but a single subfolder are
+ * compacted into one node, like the explorer does.
+ */
+export function buildFolderTree(changes: FileChange[], indices: number[]): FolderNode {
+    const root: FolderNode = { name: '', fsPath: '', folders: [], files: [], additions: 0, deletions: 0 };
+
+    for (const index of indices) {
+        const change = changes[index];
+        const segments = change.relativePath.split(/[\\/]/);
+        // The part of the absolute path that relativePath is relative to
+        const base = change.uri.fsPath.slice(0, change.uri.fsPath.length - change.relativePath.length);
+
+        let node = root;
+        for (let depth = 0; depth < segments.length - 1; depth++) {
+            let child = node.folders.find(f => f.name === segments[depth]);
+            if (!child) {
+                child = {
+                    name: segments[depth],
+                    fsPath: path.join(base, ...segments.slice(0, depth + 1)),
+                    folders: [],
+                    files: [],
+                    additions: 0,
+                    deletions: 0
+                };
+                node.folders.push(child);
+            }
+            child.additions += change.additions;
+            child.deletions += change.deletions;
+            node = child;
+        }
+        node.files.push(index);
+    }
+
+    root.folders = root.folders.map(compact);
+    sortTree(root, changes);
+    return root;
+}
+
+function compact(node: FolderNode): FolderNode {
+    let current = node;
+    while (current.files.length === 0 && current.folders.length === 1) {
+        const child = current.folders[0];
+        current = { ...child, name: `${current.name}/${child.name}` };
+    }
+    return { ...current, folders: current.folders.map(compact) };
+}
+
+function sortTree(node: FolderNode, changes: FileChange[]): void {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name));
+    node.files.sort((a, b) => path.basename(changes[a].relativePath).localeCompare(path.basename(changes[b].relativePath)));
+    for (const folder of node.folders) {
+        sortTree(folder, changes);
+    }
+}
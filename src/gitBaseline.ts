@@ -0,0 +1,271 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { SnapshotManager, FileChange } from './snapshotManager';
+import { hashContent } from './binaryFiles';
+
+export type BaselineMode = 'snapshot' | 'head' | 'index';
+
+const STATE_KEY = 'pendingChanges.gitBaseline';
+const SYNC_DELAY_MS = 1000;
+const MAX_GIT_OUTPUT = 256 * 1024 * 1024;
+
+interface GitBaselineState {
+    managed: string[];                    // fsPaths whose snapshot came from git
+    kept: Record<string, string>;         // fsPath -> content hash when kept ('' if deleted)
+}
+
+/**
+ * Optional baseline mode where a file's original content is read from git HEAD or the index
+ * of the local repository (no network), so changes made while VS Code was closed still show up.
+ * Snapshot baselines are otherwise untouched; this only adds and retires git-derived snapshots.
+ */
+export class GitBaseline implements vscode.Disposable {
+    private repoRoots: Map<string, Promise<string | undefined>> = new Map();  // folder fsPath -> repo root
+    private managed: Set<string>;
+    private kept: Map<string, string>;
+    private syncTimer: NodeJS.Timeout | undefined;
+    private syncing: Promise<void> | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private snapshotManager: SnapshotManager, private state: vscode.Memento) {
+        const saved = state.get<GitBaselineState>(STATE_KEY);
+        this.managed = new Set(saved?.managed ?? []);
+        this.kept = new Map(Object.entries(saved?.kept ?? {}));
+
+        // Commits, staging and checkouts move the baseline
+        const gitWatcher = vscode.workspace.createFileSystemWatcher('**/.git/{HEAD,index}');
+        this.disposables.push(
+            gitWatcher,
+            gitWatcher.onDidChange(() => this.scheduleSync()),
+            gitWatcher.onDidCreate(() => this.scheduleSync()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this.repoRoots.clear();
+                this.scheduleSync();
+            }),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('pendingChanges.baseline')) {
+                    this.scheduleSync();
+                }
+            })
+        );
+    }
+
+    getMode(uri: vscode.Uri): BaselineMode {
+        return vscode.workspace.getConfiguration('pendingChanges', uri).get<BaselineMode>('baseline', 'snapshot');
+    }
+
+    /**
+     * The committed (or staged) content of a file, or undefined when the folder isn't in a git
+     * mode or the file isn't in git - the caller then falls back to its own baseline
+     */
+    async readBaseline(uri: vscode.Uri): Promise<Buffer | undefined> {
+        const mode = this.getMode(uri);
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (mode === 'snapshot' || !folder) return undefined;
+
+        const root = await this.getRepoRoot(folder);
+        if (!root) return undefined;
+
+        const content = await this.readBlob(root, mode, uri);
+        if (content !== undefined) {
+            this.managed.add(uri.fsPath);
+            this.saveState();
+        }
+        return content;
+    }
+
+    scheduleSync(): void {
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
+        }
+        this.syncTimer = setTimeout(() => {
+            this.syncTimer = undefined;
+            this.sync();
+        }, SYNC_DELAY_MS);
+    }
+
+    /**
+     * Track every file git reports as changed, and stop tracking git-derived snapshots
+     * of files that are clean again (committed, staged in index mode, or reverted)
+     */
+    async sync(): Promise<void> {
+        // One pass at a time; a request during a pass runs after it
+        while (this.syncing) {
+            await this.syncing;
+        }
+        this.syncing = this.syncFolders();
+        try {
+            await this.syncing;
+        } finally {
+            this.syncing = undefined;
+        }
+    }
+
+    /**
+     * Remember a kept file, so it isn't reported again until its content changes
+     */
+    async markKept(change: FileChange): Promise<void> {
+        const uris = change.previousUri ? [change.previousUri, change.uri] : [change.uri];
+        let changed = false;
+
+        for (const uri of uris) {
+            if (this.getMode(uri) === 'snapshot') continue;
+            this.kept.set(uri.fsPath, await this.hashCurrent(uri));
+            this.managed.delete(uri.fsPath);
+            changed = true;
+        }
+        if (changed) {
+            this.saveState();
+        }
+    }
+
+    private async syncFolders(): Promise<void> {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const mode = this.getMode(folder.uri);
+            if (mode === 'snapshot') continue;
+
+            try {
+                const root = await this.getRepoRoot(folder);
+                if (!root) continue;
+                await this.syncFolder(folder, root, mode);
+            } catch (error) {
+                console.error(`Failed to read git baseline for ${folder.name}`, error);
+            }
+        }
+        this.saveState();
+    }
+
+    private async syncFolder(folder: vscode.WorkspaceFolder, root: string, mode: BaselineMode): Promise<void> {
+        const changed = await this.listChanged(root, mode);
+        const inFolder = (fsPath: string) => !path.relative(folder.uri.fsPath, fsPath).startsWith('..');
+        const deleted = new Set(this.snapshotManager.getDeletedSnapshots().map(s => s.uri.fsPath));
+
+        for (const fsPath of changed) {
+            if (!inFolder(fsPath)) continue;
+
+            const uri = vscode.Uri.file(fsPath);
+            if (this.snapshotManager.isExcluded(uri)) continue;
+            if (this.snapshotManager.hasSnapshot(uri) || deleted.has(fsPath)) continue;
+
+            const keptHash = this.kept.get(fsPath);
+            if (keptHash !== undefined) {
+                if (keptHash === await this.hashCurrent(uri)) continue;
+                this.kept.delete(fsPath);
+            }
+
+            // Not in git at all: a new file (untracked, or added to the index in head mode)
+            const baseline = await this.readBlob(root, mode, uri);
+            if (baseline === undefined && !fs.existsSync(fsPath)) continue;
+
+            this.snapshotManager.ensureSnapshot(uri, baseline ?? '', baseline === undefined);
+            this.managed.add(fsPath);
+        }
+
+        // Files git no longer reports were committed, staged or reverted
+        for (const fsPath of [...this.managed]) {
+            if (!inFolder(fsPath) || changed.has(fsPath)) continue;
+            this.managed.delete(fsPath);
+            this.snapshotManager.removeSnapshot(vscode.Uri.file(fsPath));
+        }
+        for (const fsPath of [...this.kept.keys()]) {
+            if (inFolder(fsPath) && !changed.has(fsPath)) {
+                this.kept.delete(fsPath);
+            }
+        }
+    }
+
+    /**
+     * Absolute paths that differ from HEAD (head mode) or from the index (index mode),
+     * including untracked files that aren't ignored
+     */
+    private async listChanged(root: string, mode: BaselineMode): Promise<Set<string>> {
+        const output = await this.git(root, ['status', '--porcelain=v1', '-z', '--untracked-files=all', '--no-renames']);
+        const changed = new Set<string>();
+
+        for (const entry of output.toString('utf-8').split('\0')) {
+            if (entry.length < 4) continue;
+            const staged = entry[0];
+            const unstaged = entry[1];
+            const relativePath = entry.slice(3);
+
+            const isChanged = mode === 'head'
+                ? staged !== ' ' || unstaged !== ' '
+                : unstaged !== ' ';
+            if (isChanged) {
+                changed.add(path.join(root, relativePath));
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * File content from HEAD or the index with checkout filters (line endings) applied,
+     * or undefined if the file isn't there
+     */
+    private async readBlob(root: string, mode: BaselineMode, uri: vscode.Uri): Promise<Buffer | undefined> {
+        const relativePath = path.relative(root, uri.fsPath).replace(/\\/g, '/');
+        const revision = mode === 'index' ? `:${relativePath}` : `HEAD:${relativePath}`;
+        try {
+            return await this.git(root, ['cat-file', '--filters', revision]);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private getRepoRoot(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+        let root = this.repoRoots.get(folder.uri.fsPath);
+        if (!root) {
+            root = this.git(folder.uri.fsPath, ['rev-parse', '--show-toplevel'])
+                .then(output => path.resolve(output.toString('utf-8').trim()))
+                .catch(() => undefined);
+            this.repoRoots.set(folder.uri.fsPath, root);
+        }
+        return root;
+    }
+
+    private async hashCurrent(uri: vscode.Uri): Promise<string> {
+        try {
+            return hashContent(await fs.promises.readFile(uri.fsPath));
+        } catch (error) {
+            return '';
+        }
+    }
+
+    /**
+     * Run a local, read-only git command. Prompts are disabled so it can never wait for input.
+     */
+    private git(cwd: string, args: string[]): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            execFile(
+                'git',
+                ['--no-optional-locks', ...args],
+                {
+                    cwd,
+                    encoding: 'buffer',
+                    maxBuffer: MAX_GIT_OUTPUT,
+                    env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+                },
+                (error, stdout) => error ? reject(error) : resolve(stdout)
+            );
+        });
+    }
+
+    private saveState(): void {
+        const state: GitBaselineState = {
+            managed: [...this.managed],
+            kept: Object.fromEntries(this.kept)
+        };
+        this.state.update(STATE_KEY, state);
+    }
+
+    dispose(): void {
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
+        }
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+/**
+ * The parts of the built-in git extension's API (`vscode.git`, version 1) used here
+ */
+interface GitExtension {
+    getAPI(version: 1): GitAPI;
+}
+
+interface GitAPI {
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitRepository {
+    rootUri: vscode.Uri;
+    state: { indexChanges: { uri: vscode.Uri }[] };
+    add(paths: string[]): Promise<void>;
+    commit(message: string): Promise<void>;
+}
+
+/**
+ * Stages and commits files through the built-in git extension, falling back to the
+ * local `git` binary when the extension is disabled or doesn't know the repository
+ */
+export class GitIntegration {
+    /**
+     * Add the files to the index (deleted files are staged as removals)
+     */
+    async stage(uris: vscode.Uri[]): Promise<void> {
+        for (const [root, group] of await this.groupByRepository(uris)) {
+            const repository = this.getApiRepository(group[0]);
+            if (repository) {
+                await repository.add(group.map(u => u.fsPath));
+            } else {
+                await this.git(root, ['add', '-A', '--', ...this.toPaths(root, group)]);
+            }
+        }
+    }
+
+    /**
+     * Commit exactly these files, leaving anything else that was staged alone.
+     * Returns the number of repositories committed to.
+     */
+    async commit(uris: vscode.Uri[], message: string): Promise<number> {
+        const groups = await this.groupByRepository(uris);
+
+        for (const [root, group] of groups) {
+            const repository = this.getApiRepository(group[0]);
+            const paths = new Set(group.map(u => u.fsPath));
+            const othersStaged = repository?.state.indexChanges.some(c => !paths.has(c.uri.fsPath)) ?? true;
+
+            if (repository && !othersStaged) {
+                await repository.add([...paths]);
+                await repository.commit(message);
+            } else {
+                // `--only` commits just these paths, whatever else is in the index
+                const relativePaths = this.toPaths(root, group);
+                await this.git(root, ['add', '-A', '--', ...relativePaths]);
+                await this.git(root, ['commit', '--only', '-m', message, '--', ...relativePaths]);
+            }
+        }
+
+        return groups.size;
+    }
+
+    private getApiRepository(uri: vscode.Uri): GitRepository | undefined {
+        try {
+            const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+            if (!extension?.isActive) return undefined;
+            return extension.exports.getAPI(1).getRepository(uri) ?? undefined;
+        } catch (error) {
+            // The git extension can be disabled (git.enabled = false)
+            return undefined;
+        }
+    }
+
+    private async groupByRepository(uris: vscode.Uri[]): Promise<Map<string, vscode.Uri[]>> {
+        const groups = new Map<string, vscode.Uri[]>();
+
+        for (const uri of uris) {
+            const root = this.getApiRepository(uri)?.rootUri.fsPath ?? await this.findRoot(uri);
+            if (!root) {
+                throw new Error(`${path.basename(uri.fsPath)} is not in a git repository`);
+            }
+            groups.set(root, [...(groups.get(root) ?? []), uri]);
+        }
+
+        return groups;
+    }
+
+    private async findRoot(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            const output = await this.git(path.dirname(uri.fsPath), ['rev-parse', '--show-toplevel']);
+            return path.resolve(output.trim());
+        } catch (error) {
+            // The folder may be gone (deleted file) - ask from the workspace folder instead
+            const folder = vscode.workspace.getWorkspaceFolder(uri);
+            if (!folder) return undefined;
+            try {
+                const output = await this.git(folder.uri.fsPath, ['rev-parse', '--show-toplevel']);
+                return path.resolve(output.trim());
+            } catch (folderError) {
+                return undefined;
+            }
+        }
+    }
+
+    private toPaths(root: string, uris: vscode.Uri[]): string[] {
+        return uris.map(u => path.relative(root, u.fsPath).replace(/\\/g, '/'));
+    }
+
+    private git(cwd: string, args: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile(
+                'git',
+                args,
+                { cwd, env: { ...process.env, GIT_TERMINAL_PROMPT: '0' } },
+                (error, stdout, stderr) => error
+                    ? reject(new Error(stderr.trim() || error.message))
+                    : resolve(stdout)
+            );
+        });
+    }
+}
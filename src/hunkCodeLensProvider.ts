@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { SnapshotManager } from './snapshotManager';
+import { computeHunks } from './lineDiff';
+
+/**
+ * Shows Keep / Undo actions above every changed hunk in the editor
+ */
+export class HunkCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private snapshotManager: SnapshotManager) {
+        this.disposables.push(
+            snapshotManager.onSnapshotsChanged(() => {
+                this._onDidChangeCodeLenses.fire();
+            })
+        );
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const snapshot = this.snapshotManager.getSnapshot(document.uri);
+        if (!snapshot || snapshot.isNewFile || snapshot.isBinary) {
+            return [];
+        }
+
+        const hunks = computeHunks(snapshot.originalContent, document.getText());
+        const lenses: vscode.CodeLens[] = [];
+
+        for (const hunk of hunks) {
+            // Pure deletions have no current lines - anchor on the line that follows them
+            const line = Math.min(hunk.currentStart, document.lineCount - 1);
+            const range = new vscode.Range(line, 0, line, 0);
+            const args = { uri: document.uri.fsPath, hunk };
+
+            lenses.push(
+                new vscode.CodeLens(range, {
+                    title: `$(check) Keep (+${hunk.currentLength} -${hunk.originalLength})`,
+                    command: 'pendingChanges.acceptHunk',
+                    arguments: [args]
+                }),
+                new vscode.CodeLens(range, {
+                    title: '$(discard) Undo',
+                    command: 'pendingChanges.discardHunk',
+                    arguments: [args]
+                })
+            );
+        }
+
+        return lenses;
+    }
+
+    dispose(): void {
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
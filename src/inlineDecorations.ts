@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { SnapshotManager } from './snapshotManager';
+import { computeHunks, splitLines } from './lineDiff';
+
+// Typing is batched so the diff isn't recomputed on every keystroke
+const UPDATE_DELAY_MS = 150;
+const MAX_GHOST_TEXT_LENGTH = 120;
+
+/**
+ * Marks changes against the snapshot directly in the editor: gutter bars for added
+ * and modified lines, and removed lines as ghost text where they used to be
+ */
+export class InlineChangeDecorations implements vscode.Disposable {
+    private addedType: vscode.TextEditorDecorationType;
+    private modifiedType: vscode.TextEditorDecorationType;
+    private removedType: vscode.TextEditorDecorationType;
+    private pendingUpdates: Map<string, NodeJS.Timeout> = new Map();  // document uri -> timer
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(extensionUri: vscode.Uri, private snapshotManager: SnapshotManager) {
+        this.addedType = vscode.window.createTextEditorDecorationType({
+            gutterIconPath: vscode.Uri.joinPath(extensionUri, 'resources', 'gutter-added.svg'),
+            gutterIconSize: 'contain',
+            overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left,
+            isWholeLine: true
+        });
+        this.modifiedType = vscode.window.createTextEditorDecorationType({
+            gutterIconPath: vscode.Uri.joinPath(extensionUri, 'resources', 'gutter-modified.svg'),
+            gutterIconSize: 'contain',
+            overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.modifiedForeground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left,
+            isWholeLine: true
+        });
+        this.removedType = vscode.window.createTextEditorDecorationType({
+            gutterIconPath: vscode.Uri.joinPath(extensionUri, 'resources', 'gutter-removed.svg'),
+            gutterIconSize: 'contain',
+            overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left,
+            after: {
+                color: new vscode.ThemeColor('editorGhostText.foreground'),
+                fontStyle: 'italic',
+                margin: '0 0 0 2em'
+            }
+        });
+
+        this.disposables.push(
+            this.addedType,
+            this.modifiedType,
+            this.removedType,
+            snapshotManager.onSnapshotsChanged(() => this.updateAll()),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.updateAll()),
+            vscode.workspace.onDidChangeTextDocument(e => this.scheduleUpdate(e.document)),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('pendingChanges.inlineDecorations')) {
+                    this.updateAll();
+                }
+            })
+        );
+
+        this.updateAll();
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const pending = this.pendingUpdates.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            for (const editor of vscode.window.visibleTextEditors) {
+                if (editor.document === document) {
+                    this.update(editor);
+                }
+            }
+        }, UPDATE_DELAY_MS));
+    }
+
+    private updateAll(): void {
+        for (const editor of vscode.window.visibleTextEditors) {
+            this.update(editor);
+        }
+    }
+
+    private update(editor: vscode.TextEditor): void {
+        const added: vscode.DecorationOptions[] = [];
+        const modified: vscode.DecorationOptions[] = [];
+        const removed: vscode.DecorationOptions[] = [];
+
+        const document = editor.document;
+        const enabled = vscode.workspace.getConfiguration('pendingChanges', document.uri).get<boolean>('inlineDecorations', true);
+        const snapshot = enabled ? this.snapshotManager.getSnapshot(document.uri) : undefined;
+
+        if (snapshot && !snapshot.isBinary) {
+            const originalLines = splitLines(snapshot.originalContent);
+            const hunks = snapshot.isNewFile
+                ? [{ originalStart: 0, originalLength: 0, currentStart: 0, currentLength: document.lineCount }]
+                : computeHunks(snapshot.originalContent, document.getText());
+
+            for (const hunk of hunks) {
+                const removedLines = originalLines
+                    .slice(hunk.originalStart, hunk.originalStart + hunk.originalLength)
+                    .map(line => line.replace(/\r$/, ''));
+
+                if (hunk.currentLength === 0) {
+                    // Pure deletions have no current lines - anchor on the line that follows them
+                    const line = Math.min(hunk.currentStart, document.lineCount - 1);
+                    removed.push({
+                        range: new vscode.Range(line, 0, line, 0),
+                        hoverMessage: this.describeRemoved(removedLines, document.languageId),
+                        renderOptions: { after: { contentText: this.formatGhostText(removedLines) } }
+                    });
+                    continue;
+                }
+
+                const range = new vscode.Range(hunk.currentStart, 0, hunk.currentStart + hunk.currentLength - 1, 0);
+                if (hunk.originalLength === 0) {
+                    added.push({ range });
+                } else {
+                    modified.push({ range, hoverMessage: this.describeRemoved(removedLines, document.languageId) });
+                }
+            }
+        }
+
+        editor.setDecorations(this.addedType, added);
+        editor.setDecorations(this.modifiedType, modified);
+        editor.setDecorations(this.removedType, removed);
+    }
+
+    /**
+     * Decoration text can't span lines, so removed lines are joined on one line
+     */
+    private formatGhostText(lines: string[]): string {
+        const text = `− ${lines.map(line => line.trim()).join(' ⏎ ')}`;
+        return text.length > MAX_GHOST_TEXT_LENGTH
+            ? `${text.slice(0, MAX_GHOST_TEXT_LENGTH - 1)}…`
+            : text;
+    }
+
+    private describeRemoved(lines: string[], languageId: string): vscode.MarkdownString {
+        return new vscode.MarkdownString()
+            .appendMarkdown(`**Original** (${lines.length} line${lines.length === 1 ? '' : 's'})`)
+            .appendCodeblock(lines.join('\n'), languageId);
+    }
+
+    dispose(): void {
+        for (const timer of this.pendingUpdates.values()) {
+            clearTimeout(timer);
+        }
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+    }
+}
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A JSON file in the extension's storage folder. Writes go to a temp file that is renamed
+ * into place, so a crash can't leave half a file, and are chained so an older state never
+ * lands after a newer one.
+ */
+export class JsonFile<T> {
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string, private readonly description: string) {}
+
+    /**
+     * Undefined if the file doesn't exist yet or can't be read
+     */
+    async read(): Promise<T | undefined> {
+        try {
+            const raw = await fs.promises.readFile(this.filePath, 'utf-8');
+            return JSON.parse(raw) as T;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`Failed to load ${this.description}`, error);
+            }
+            return undefined;
+        }
+    }
+
+    /**
+     * Resolves once this and every earlier write has landed (or failed and been logged)
+     */
+    write(value: T): Promise<void> {
+        this.writing = this.writing.then(async () => {
+            try {
+                await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+                const tempPath = `${this.filePath}.tmp`;
+                await fs.promises.writeFile(tempPath, JSON.stringify(value), 'utf-8');
+                await fs.promises.rename(tempPath, this.filePath);
+            } catch (error) {
+                console.error(`Failed to save ${this.description}`, error);
+            }
+        });
+        return this.writing;
+    }
+}
@@ -0,0 +1,210 @@
+/**
+ * A contiguous region where the original and current content differ.
+ * Line numbers are 0-based indexes into `content.split('\n')`.
+ */
+export interface DiffHunk {
+    originalStart: number;
+    originalLength: number;
+    currentStart: number;
+    currentLength: number;
+}
+
+/**
+ * An offset-based text replacement, ready to be turned into a vscode.Range
+ */
+export interface TextReplacement {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// Beyond this many edits the diff is reported as a single hunk to bound time and memory
+const MAX_EDIT_DISTANCE = 2000;
+
+export function splitLines(content: string): string[] {
+    return content.split('\n');
+}
+
+/**
+ * Split the differences between two texts into hunks with exact line ranges (Myers diff)
+ */
+export function computeHunks(original: string, current: string): DiffHunk[] {
+    if (original === current) return [];
+    return diffLines(splitLines(original), splitLines(current));
+}
+
+/**
+ * Hunks between two arrays of lines, compared exactly
+ */
+export function diffLines(a: string[], b: string[]): DiffHunk[] {
+    // Trim the common prefix and suffix so the diff only covers the changed middle
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix &&
+           a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    if (middleA.length === 0 && middleB.length === 0) return [];
+
+    const edits = myersEdits(middleA, middleB);
+    if (!edits) {
+        return [{ originalStart: prefix, originalLength: middleA.length, currentStart: prefix, currentLength: middleB.length }];
+    }
+
+    const hunks: DiffHunk[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length || j < middleB.length) {
+        if (i < middleA.length && j < middleB.length && !edits.deleted[i] && !edits.inserted[j]) {
+            i++;
+            j++;
+            continue;
+        }
+        const hunk: DiffHunk = { originalStart: prefix + i, originalLength: 0, currentStart: prefix + j, currentLength: 0 };
+        while (i < middleA.length && edits.deleted[i]) {
+            hunk.originalLength++;
+            i++;
+        }
+        while (j < middleB.length && edits.inserted[j]) {
+            hunk.currentLength++;
+            j++;
+        }
+        hunks.push(hunk);
+    }
+
+    return hunks;
+}
+
+/**
+ * Count added and removed lines across a set of hunks
+ */
+export function countHunkLines(hunks: DiffHunk[]): { additions: number; deletions: number } {
+    let additions = 0;
+    let deletions = 0;
+    for (const hunk of hunks) {
+        additions += hunk.currentLength;
+        deletions += hunk.originalLength;
+    }
+    return { additions, deletions };
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers, "An O(ND) Difference Algorithm").
+ * Returns which lines of `a` are deleted and which lines of `b` are inserted,
+ * or undefined when the edit distance exceeds MAX_EDIT_DISTANCE.
+ */
+function myersEdits(a: string[], b: string[]): { deleted: boolean[]; inserted: boolean[] } | undefined {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+
+    // trace[d] holds the furthest x reached on diagonals -d..d after d edits
+    const trace: Int32Array[] = [];
+    let found = false;
+
+    for (let d = 0; d <= max && !found; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+        trace.push(v.slice(offset - d, offset + d + 1));
+    }
+
+    if (!found) return undefined;
+
+    const deleted: boolean[] = new Array(n).fill(false);
+    const inserted: boolean[] = new Array(m).fill(false);
+
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const previous = trace[d - 1];
+        const k = x - y;
+        const down = k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]);
+        const previousK = down ? k + 1 : k - 1;
+        const previousX = previous[previousK + d - 1];
+        const previousY = previousX - previousK;
+
+        if (down) {
+            inserted[previousY] = true;
+        } else {
+            deleted[previousX] = true;
+        }
+        x = previousX;
+        y = previousY;
+    }
+
+    return { deleted, inserted };
+}
+
+/**
+ * Share of lines two texts have in common, from 0 (nothing) to 1 (identical)
+ */
+export function similarity(a: string, b: string): number {
+    if (a === b) return 1;
+
+    const totalLines = splitLines(a).length + splitLines(b).length;
+    const { deletions } = countHunkLines(computeHunks(a, b));
+    const commonLines = splitLines(a).length - deletions;
+    return (2 * commonLines) / totalLines;
+}
+
+export function hunksEqual(a: DiffHunk, b: DiffHunk): boolean {
+    return a.originalStart === b.originalStart &&
+        a.originalLength === b.originalLength &&
+        a.currentStart === b.currentStart &&
+        a.currentLength === b.currentLength;
+}
+
+/**
+ * Build the edit that replaces `length` lines starting at `start` with `lines`
+ */
+export function replaceLines(content: string, start: number, length: number, lines: string[]): TextReplacement {
+    const existing = splitLines(content);
+
+    let offset = 0;
+    for (let k = 0; k < start; k++) {
+        offset += existing[k].length + 1;
+    }
+
+    if (start + length < existing.length) {
+        let end = offset;
+        for (let k = start; k < start + length; k++) {
+            end += existing[k].length + 1;
+        }
+        return { start: offset, end, text: lines.map(line => line + '\n').join('') };
+    }
+
+    // The region runs to the end of the text, which has no trailing line break
+    if (start === 0) {
+        return { start: 0, end: content.length, text: lines.join('\n') };
+    }
+    return {
+        start: offset - 1,
+        end: content.length,
+        text: lines.length > 0 ? '\n' + lines.join('\n') : ''
+    };
+}
+
+export function applyReplacement(content: string, replacement: TextReplacement): string {
+    return content.slice(0, replacement.start) + replacement.text + content.slice(replacement.end);
+}
@@ -0,0 +1,345 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { SnapshotManager } from './snapshotManager';
+import { toLineTokens, decodeBase85 } from './unifiedDiff';
+
+/**
+ * One `@@` block. Lines keep their line break, so `\ No newline at end of file` is exact.
+ */
+export interface PatchHunk {
+    oldStart: number;   // 0-based index of the first old line
+    oldLines: string[];
+    newLines: string[];
+}
+
+export interface FilePatch {
+    oldPath: string | null;   // null for created files
+    newPath: string | null;   // null for deleted files
+    hunks: PatchHunk[];
+    binary?: Buffer;          // new content of a binary file (git `literal` patches)
+    unsupported?: string;     // why this file can't be applied
+}
+
+export interface PatchReport {
+    applied: string[];                          // paths that were written (possibly partially)
+    failed: { path: string; reason: string }[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse a unified diff or `git format-patch` file. Email headers, the commit message
+ * and the diffstat before the first file are skipped.
+ */
+export function parsePatch(text: string): FilePatch[] {
+    const lines = text.split('\n');
+    const patches: FilePatch[] = [];
+    let current: FilePatch | undefined;
+    let awaitingFileHeader = false;  // after `diff --git`, until its `+++` line
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i].replace(/\r$/, '');
+
+        if (line.startsWith('diff --git ')) {
+            const [oldPath, newPath] = parseGitHeaderPaths(line.slice('diff --git '.length));
+            current = { oldPath, newPath, hunks: [] };
+            patches.push(current);
+            awaitingFileHeader = true;
+            i++;
+            continue;
+        }
+
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            if (!current || !awaitingFileHeader) {
+                current = { oldPath: null, newPath: null, hunks: [] };
+                patches.push(current);
+            }
+            current.oldPath = parseFilePath(line.slice(4), 'a/');
+            current.newPath = parseFilePath(lines[i + 1].replace(/\r$/, '').slice(4), 'b/');
+            awaitingFileHeader = false;
+            i += 2;
+            continue;
+        }
+
+        if (current && awaitingFileHeader) {
+            if (line.startsWith('new file mode')) current.oldPath = null;
+            if (line.startsWith('deleted file mode')) current.newPath = null;
+            if (line.startsWith('rename from ')) current.oldPath = unquote(line.slice('rename from '.length));
+            if (line.startsWith('rename to ')) current.newPath = unquote(line.slice('rename to '.length));
+            if (line.startsWith('Binary files ')) current.unsupported = 'binary diff without content';
+        }
+
+        if (current && line === 'GIT binary patch') {
+            i = parseBinaryPatch(lines, i + 1, current);
+            awaitingFileHeader = false;
+            continue;
+        }
+
+        const match = current ? HUNK_HEADER.exec(line) : null;
+        if (current && match) {
+            i = parseHunk(lines, i + 1, match, current);
+            continue;
+        }
+
+        i++;
+    }
+
+    return patches;
+}
+
+function parseHunk(lines: string[], start: number, match: RegExpExecArray, patch: FilePatch): number {
+    let oldCount = match[2] !== undefined ? Number(match[2]) : 1;
+    let newCount = match[4] !== undefined ? Number(match[4]) : 1;
+    // An empty range points at the line before it
+    const oldStart = Number(match[1]);
+    const hunk: PatchHunk = { oldStart: oldCount === 0 ? oldStart : oldStart - 1, oldLines: [], newLines: [] };
+
+    let lastSides: string[][] = [];
+    let i = start;
+    while (i < lines.length && (oldCount > 0 || newCount > 0 || lines[i].startsWith('\\'))) {
+        const line = lines[i];
+        if (line.startsWith('\\')) {
+            // "\ No newline at end of file" applies to the line just before it
+            for (const side of lastSides) {
+                side[side.length - 1] = side[side.length - 1].replace(/\n$/, '');
+            }
+        } else if (line.startsWith('+')) {
+            hunk.newLines.push(line.slice(1) + '\n');
+            lastSides = [hunk.newLines];
+            newCount--;
+        } else if (line.startsWith('-')) {
+            hunk.oldLines.push(line.slice(1) + '\n');
+            lastSides = [hunk.oldLines];
+            oldCount--;
+        } else if (line.startsWith(' ') || line === '') {
+            // Some tools strip the space from empty context lines
+            hunk.oldLines.push(line.slice(1) + '\n');
+            hunk.newLines.push(line.slice(1) + '\n');
+            lastSides = [hunk.oldLines, hunk.newLines];
+            oldCount--;
+            newCount--;
+        } else {
+            break;
+        }
+        i++;
+    }
+
+    patch.hunks.push(hunk);
+    return i;
+}
+
+/**
+ * Read the forward block of a git binary patch. Only `literal` blocks carry the whole file;
+ * `delta` blocks need the exact original and are reported as unsupported.
+ */
+function parseBinaryPatch(lines: string[], start: number, patch: FilePatch): number {
+    const header = /^(literal|delta) (\d+)/.exec(lines[start] ?? '');
+    let i = start + 1;
+    const chunks: Buffer[] = [];
+    while (i < lines.length && lines[i].replace(/\r$/, '') !== '') {
+        const line = lines[i].replace(/\r$/, '');
+        const lengthChar = line.charCodeAt(0);
+        const length = lengthChar <= 'Z'.charCodeAt(0)
+            ? lengthChar - 'A'.charCodeAt(0) + 1
+            : lengthChar - 'a'.charCodeAt(0) + 27;
+        chunks.push(decodeBase85(line.slice(1), length));
+        i++;
+    }
+
+    if (!header || header[1] !== 'literal') {
+        patch.unsupported = 'binary delta patches are not supported';
+        return i;
+    }
+
+    try {
+        const bytes = zlib.inflateSync(Buffer.concat(chunks));
+        if (bytes.length !== Number(header[2])) {
+            patch.unsupported = 'corrupt binary patch';
+        } else {
+            patch.binary = bytes;
+        }
+    } catch (error) {
+        patch.unsupported = 'corrupt binary patch';
+    }
+    return i;
+}
+
+function parseGitHeaderPaths(rest: string): [string | null, string | null] {
+    const quoted = /^"a\/(.*)" "b\/(.*)"$/.exec(rest);
+    if (quoted) {
+        return [quoted[1], quoted[2]];
+    }
+    const separator = rest.indexOf(' b/');
+    if (!rest.startsWith('a/') || separator === -1) {
+        return [null, null];
+    }
+    return [rest.slice(2, separator), rest.slice(separator + 3)];
+}
+
+function parseFilePath(value: string, prefix: string): string | null {
+    // Drop the timestamp `diff -u` appends after a tab
+    const filePath = unquote(value.split('\t')[0].trim());
+    if (filePath === '/dev/null') return null;
+    return filePath.startsWith(prefix) ? filePath.slice(prefix.length) : filePath;
+}
+
+function unquote(value: string): string {
+    return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+/**
+ * Apply hunks in order, allowing each to have moved from where the patch expects it.
+ * Returns the new content and the 1-based numbers of hunks whose lines were not found.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): { content: string; failed: number[] } {
+    const lines = toLineTokens(content);
+    const failed: number[] = [];
+    let offset = 0;
+    let minIndex = 0;
+
+    hunks.forEach((hunk, index) => {
+        const at = findLines(lines, hunk.oldLines, hunk.oldStart + offset, minIndex);
+        if (at === -1) {
+            failed.push(index + 1);
+            return;
+        }
+
+        lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+        offset = at - hunk.oldStart + hunk.newLines.length - hunk.oldLines.length;
+        minIndex = at + hunk.newLines.length;
+    });
+
+    return { content: lines.join(''), failed };
+}
+
+/**
+ * Position of `pattern` in `lines` closest to `expected`, not before `minIndex`
+ */
+function findLines(lines: string[], pattern: string[], expected: number, minIndex: number): number {
+    const maxIndex = lines.length - pattern.length;
+    if (maxIndex < minIndex) return -1;
+
+    const matchesAt = (index: number) => pattern.every((line, k) => lines[index + k] === line);
+    const start = Math.min(Math.max(expected, minIndex), maxIndex);
+    for (let distance = 0; start - distance >= minIndex || start + distance <= maxIndex; distance++) {
+        if (start - distance >= minIndex && matchesAt(start - distance)) return start - distance;
+        if (distance > 0 && start + distance <= maxIndex && matchesAt(start + distance)) return start + distance;
+    }
+    return -1;
+}
+
+/**
+ * Apply parsed file patches to the workspace. Every touched file is snapshotted
+ * at its pre-patch content first, so the result shows up as pending changes.
+ */
+export async function applyPatch(snapshotManager: SnapshotManager, patches: FilePatch[]): Promise<PatchReport> {
+    const report: PatchReport = { applied: [], failed: [] };
+
+    for (const patch of patches) {
+        const displayPath = patch.newPath ?? patch.oldPath ?? '(unknown file)';
+        try {
+            // A partially applied file is written and still reported
+            const { written, problem } = await applyFilePatch(snapshotManager, patch);
+            if (written) {
+                report.applied.push(displayPath);
+            }
+            if (problem) {
+                report.failed.push({ path: displayPath, reason: problem });
+            }
+        } catch (error) {
+            console.error(`Failed to apply patch to ${displayPath}`, error);
+            report.failed.push({ path: displayPath, reason: 'could not be written' });
+        }
+    }
+
+    return report;
+}
+
+/**
+ * Whether the file was written, and why it (or some of its hunks) could not be applied
+ */
+async function applyFilePatch(snapshotManager: SnapshotManager, patch: FilePatch): Promise<{ written: boolean; problem?: string }> {
+    const fail = (problem: string) => ({ written: false, problem });
+
+    if (patch.unsupported) return fail(patch.unsupported);
+    if (patch.oldPath === null && patch.newPath === null) return fail('no file name in patch');
+
+    const oldUri = patch.oldPath !== null ? resolvePatchPath(patch.oldPath) : undefined;
+    const newUri = patch.newPath !== null ? resolvePatchPath(patch.newPath) : undefined;
+    if ((patch.oldPath !== null && !oldUri) || (patch.newPath !== null && !newUri)) {
+        return fail('path is outside the workspace');
+    }
+    const moved = oldUri && newUri && oldUri.fsPath !== newUri.fsPath;
+
+    if (!oldUri && newUri && fs.existsSync(newUri.fsPath)) return fail('file already exists');
+    if (moved && fs.existsSync(newUri.fsPath)) return fail('rename target already exists');
+
+    if (patch.binary) {
+        const original = oldUri ? await readBytes(oldUri) : null;
+        if (oldUri && original === null) return fail('file not found');
+
+        if (oldUri) snapshotManager.ensureSnapshot(oldUri, original!, false);
+        if (newUri && (!oldUri || moved)) snapshotManager.ensureSnapshot(newUri, '', true);
+
+        if (newUri && !await snapshotManager.writeFileContent(newUri, patch.binary)) {
+            return fail('could not be written');
+        }
+        if (oldUri && (!newUri || moved) && !await snapshotManager.writeFileContent(oldUri, null)) {
+            return fail('could not be deleted');
+        }
+        return { written: true };
+    }
+
+    const original = oldUri ? await snapshotManager.getCurrentContent(oldUri) : '';
+    if (original === null) return fail('file not found');
+
+    const { content, failed } = applyHunks(original, patch.hunks);
+    const failedHunks = `hunk${failed.length > 1 ? 's' : ''} ${failed.join(', ')} did not apply`;
+    if (failed.length > 0 && (failed.length === patch.hunks.length || !newUri)) {
+        // Nothing to write, or a deletion whose content doesn't match
+        return fail(`no changes applied (${failedHunks})`);
+    }
+
+    if (oldUri) snapshotManager.ensureSnapshot(oldUri, original, false);
+    if (newUri && (!oldUri || moved)) snapshotManager.ensureSnapshot(newUri, '', true);
+
+    if (newUri && !await snapshotManager.writeFileContent(newUri, content)) {
+        return fail('could not be written');
+    }
+    if (oldUri && (!newUri || moved) && !await snapshotManager.writeFileContent(oldUri, null)) {
+        return fail('could not be deleted');
+    }
+
+    return failed.length > 0 ? { written: true, problem: failedHunks } : { written: true };
+}
+
+/**
+ * Patch paths are relative to the workspace folder. In multi-root workspaces they may start
+ * with a folder name (as written by Export as Patch); otherwise the folder containing the file wins.
+ */
+function resolvePatchPath(patchPath: string): vscode.Uri | undefined {
+    const segments = patchPath.split('/');
+    if (segments.includes('..')) return undefined;
+
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) return undefined;
+
+    const named = folders.length > 1 ? folders.find(f => f.name === segments[0]) : undefined;
+    if (named && segments.length > 1) {
+        return vscode.Uri.joinPath(named.uri, ...segments.slice(1));
+    }
+
+    const containing = folders.find(f => fs.existsSync(path.join(f.uri.fsPath, patchPath)));
+    return vscode.Uri.joinPath((containing ?? folders[0]).uri, ...segments);
+}
+
+async function readBytes(uri: vscode.Uri): Promise<Buffer | null> {
+    try {
+        return await fs.promises.readFile(uri.fsPath);
+    } catch (error) {
+        return null;
+    }
+}
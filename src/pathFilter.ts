@@ -0,0 +1,324 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const IGNORE_FILE = '.pendingchangesignore';
+const GITIGNORE_FILE = '.gitignore';
+
+/**
+ * One line of a .gitignore-style file
+ */
+interface IgnoreRule {
+    regex: RegExp;
+    negated: boolean;
+    dirOnly: boolean;
+}
+
+/**
+ * The rules of one ignore file, which match paths relative to its own folder
+ */
+interface RuleSet {
+    base: string;   // folder of the ignore file relative to the workspace folder; '' at its root
+    rules: IgnoreRule[];
+}
+
+const globCache: Map<string, RegExp> = new Map();
+
+/**
+ * Compile a glob (`**`, `*`, `?`, `[abc]`, `{a,b}`) into a regular expression
+ * that matches a whole forward-slash path
+ */
+export function globToRegExp(glob: string): RegExp {
+    let regex = globCache.get(glob);
+    if (!regex) {
+        regex = new RegExp(`^${globToRegExpSource(glob)}$`);
+        globCache.set(glob, regex);
+    }
+    return regex;
+}
+
+export function matchesGlob(relativePath: string, glob: string): boolean {
+    return globToRegExp(glob).test(relativePath);
+}
+
+function globToRegExpSource(glob: string): string {
+    let source = '';
+    let i = 0;
+
+    while (i < glob.length) {
+        const char = glob[i];
+
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // '**' as a whole segment spans any number of folders, including none
+                const segmentStart = i === 0 || glob[i - 1] === '/';
+                if (segmentStart && glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 3;
+                } else {
+                    source += '.*';
+                    i += 2;
+                }
+                continue;
+            }
+            source += '[^/]*';
+            i++;
+            continue;
+        }
+
+        if (char === '?') {
+            source += '[^/]';
+            i++;
+            continue;
+        }
+
+        if (char === '[') {
+            const end = glob.indexOf(']', i + 2);
+            if (end !== -1) {
+                let set = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+                if (set.startsWith('!')) {
+                    set = '^' + set.slice(1);
+                }
+                source += `[${set}]`;
+                i = end + 1;
+                continue;
+            }
+        }
+
+        if (char === '{') {
+            const end = findClosingBrace(glob, i);
+            if (end !== -1) {
+                const alternatives = splitAlternatives(glob.slice(i + 1, end));
+                source += `(?:${alternatives.map(globToRegExpSource).join('|')})`;
+                i = end + 1;
+                continue;
+            }
+        }
+
+        if (char === '\\' && i + 1 < glob.length) {
+            source += escapeRegExp(glob[i + 1]);
+            i += 2;
+            continue;
+        }
+
+        source += escapeRegExp(char);
+        i++;
+    }
+
+    return source;
+}
+
+function findClosingBrace(glob: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < glob.length; i++) {
+        if (glob[i] === '{') depth++;
+        if (glob[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+function splitAlternatives(body: string): string[] {
+    const alternatives: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of body) {
+        if (char === ',' && depth === 0) {
+            alternatives.push(current);
+            current = '';
+            continue;
+        }
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        current += char;
+    }
+    alternatives.push(current);
+    return alternatives;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.+^${}()|[\]\\*?]/g, '\\$&');
+}
+
+/**
+ * Parse .gitignore syntax: comments, `!` negation, trailing `/` for folders only,
+ * and patterns without a slash matching at any depth
+ */
+export function parseIgnoreFile(text: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        let line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const negated = line.startsWith('!');
+        if (negated) {
+            line = line.slice(1);
+        } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+            line = line.slice(1);
+        }
+
+        const dirOnly = line.endsWith('/');
+        if (dirOnly) {
+            line = line.slice(0, -1);
+        }
+        if (!line) continue;
+
+        // A slash anywhere but the end anchors the pattern to the ignore file's folder
+        const anchored = line.includes('/');
+        if (line.startsWith('/')) {
+            line = line.slice(1);
+        }
+
+        rules.push({
+            regex: globToRegExp(anchored ? line : `**/${line}`),
+            negated,
+            dirOnly
+        });
+    }
+
+    return rules;
+}
+
+/**
+ * Apply ignore rules the way git does: the last matching rule wins, rules of deeper
+ * ignore files (later in the list) win over those above them, and nothing inside
+ * an ignored folder can be re-included
+ */
+function isIgnoredBy(ruleSets: RuleSet[], relativePath: string): boolean {
+    if (ruleSets.every(set => set.rules.length === 0)) return false;
+
+    const segments = relativePath.split('/');
+    for (let depth = 1; depth <= segments.length; depth++) {
+        const candidate = segments.slice(0, depth).join('/');
+        const isFolder = depth < segments.length;
+
+        let ignored = false;
+        for (const { base, rules } of ruleSets) {
+            if (base && !candidate.startsWith(`${base}/`)) continue;
+            const local = base ? candidate.slice(base.length + 1) : candidate;
+            for (const rule of rules) {
+                if (rule.dirOnly && !isFolder) continue;
+                if (rule.regex.test(local)) {
+                    ignored = !rule.negated;
+                }
+            }
+        }
+
+        if (isFolder && ignored) return true;
+        if (!isFolder) return ignored;
+    }
+
+    return false;
+}
+
+/**
+ * Decides which files are tracked, from excludePatterns, a project .pendingchangesignore
+ * and (optionally) .gitignore. Shared by the file watcher and the snapshot manager.
+ */
+export class PathFilter implements vscode.Disposable {
+    private ignoreFiles: Map<string, IgnoreRule[]> = new Map();  // ignore file path -> rules
+    private disposables: vscode.Disposable[] = [];
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/{${GITIGNORE_FILE},${IGNORE_FILE}}`);
+        const reload = () => this.reload();
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload),
+            vscode.workspace.onDidChangeWorkspaceFolders(reload),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('pendingChanges.excludePatterns') ||
+                    e.affectsConfiguration('pendingChanges.useGitignore')) {
+                    this._onDidChange.fire();
+                }
+            })
+        );
+    }
+
+    isExcluded(uri: vscode.Uri): boolean {
+        const config = vscode.workspace.getConfiguration('pendingChanges', uri);
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        const relativePath = folder
+            ? path.relative(folder.uri.fsPath, uri.fsPath).replace(/\\/g, '/')
+            : uri.fsPath.replace(/\\/g, '/');
+
+        // `!pattern` re-includes files excluded by an earlier pattern
+        let excluded = false;
+        for (const pattern of config.get<string[]>('excludePatterns', [])) {
+            const negated = pattern.startsWith('!');
+            if (matchesGlob(relativePath, negated ? pattern.slice(1) : pattern)) {
+                excluded = !negated;
+            }
+        }
+        if (excluded || !folder) return excluded;
+
+        // Every .gitignore from the folder root down to the file, then .pendingchangesignore
+        const ruleSets: RuleSet[] = [];
+        if (config.get<boolean>('useGitignore', false)) {
+            const directories = relativePath.split('/').slice(0, -1);
+            for (let depth = 0; depth <= directories.length; depth++) {
+                const base = directories.slice(0, depth).join('/');
+                ruleSets.push({ base, rules: this.getRules(path.join(folder.uri.fsPath, base, GITIGNORE_FILE)) });
+            }
+        }
+        ruleSets.push({ base: '', rules: this.getRules(path.join(folder.uri.fsPath, IGNORE_FILE)) });
+        return isIgnoredBy(ruleSets, relativePath);
+    }
+
+    /**
+     * Append a pattern to the folder's .pendingchangesignore, creating it if needed
+     */
+    async addIgnorePattern(folder: vscode.WorkspaceFolder, pattern: string): Promise<boolean> {
+        const filePath = path.join(folder.uri.fsPath, IGNORE_FILE);
+
+        try {
+            let existing = '';
+            try {
+                existing = await fs.promises.readFile(filePath, 'utf-8');
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            }
+
+            const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+            await fs.promises.writeFile(filePath, `${existing}${separator}${pattern}\n`, 'utf-8');
+            this.reload();
+            return true;
+        } catch (error) {
+            console.error(`Failed to update ${filePath}`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Rules of one ignore file, cached until an ignore file changes; none if it doesn't exist
+     */
+    private getRules(filePath: string): IgnoreRule[] {
+        let rules = this.ignoreFiles.get(filePath);
+        if (!rules) {
+            try {
+                rules = parseIgnoreFile(fs.readFileSync(filePath, 'utf-8'));
+            } catch (error) {
+                rules = [];
+            }
+            this.ignoreFiles.set(filePath, rules);
+        }
+        return rules;
+    }
+
+    private reload(): void {
+        this.ignoreFiles.clear();
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+        this._onDidChange.dispose();
+    }
+}
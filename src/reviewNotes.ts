@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import { SnapshotManager } from './snapshotManager';
+import { OriginalContentProvider } from './diffViewer';
+
+export interface ReviewNote {
+    id: string;
+    fsPath: string;
+    relativePath: string;
+    side: 'current' | 'original';   // which side of the diff the line is on
+    line?: number;                  // 0-based; undefined for a note on the whole file
+    excerpt?: string;               // the line's text when the note was written
+    body: string;
+    createdAt: number;
+}
+
+const STATE_KEY = 'pendingChanges.reviewNotes';
+const MAX_ARCHIVED_NOTES = 200;
+
+interface ReviewNotesState {
+    notes: ReviewNote[];
+    archived: ReviewNote[];         // notes of kept or undone files, newest last
+}
+
+/**
+ * One note shown in a comment thread
+ */
+export class NoteComment implements vscode.Comment {
+    readonly mode = vscode.CommentMode.Preview;
+    readonly author = { name: 'Review note' };
+    readonly contextValue = 'reviewNote';
+    readonly body: vscode.MarkdownString;
+    readonly timestamp: Date;
+
+    constructor(public readonly note: ReviewNote) {
+        this.body = new vscode.MarkdownString(note.body);
+        this.timestamp = new Date(note.createdAt);
+    }
+}
+
+/**
+ * Review notes on pending changes, written with the Comments API on either side of
+ * the diff editor (or on a whole file), kept until the file is kept or undone
+ */
+export class ReviewNotes implements vscode.Disposable {
+    private controller: vscode.CommentController;
+    private notes: ReviewNote[];
+    private archived: ReviewNote[];
+    private threads: Map<string, vscode.CommentThread> = new Map();  // thread key -> thread
+    private nextId = 0;
+    private disposables: vscode.Disposable[] = [];
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private snapshotManager: SnapshotManager, private state: vscode.Memento) {
+        const saved = state.get<ReviewNotesState>(STATE_KEY);
+        this.notes = saved?.notes ?? [];
+        this.archived = saved?.archived ?? [];
+
+        this.controller = vscode.comments.createCommentController('pendingChanges.reviewNotes', 'Review Notes');
+        this.controller.options = {
+            prompt: 'Add a review note',
+            placeHolder: 'What should change here?'
+        };
+        this.controller.commentingRangeProvider = {
+            provideCommentingRanges: document => this.isReviewable(document.uri)
+                ? [new vscode.Range(0, 0, Math.max(0, document.lineCount - 1), 0)]
+                : []
+        };
+        this.disposables.push(this.controller);
+
+        for (const note of this.notes) {
+            if (note.line !== undefined) {
+                this.addToThread(note);
+            }
+        }
+    }
+
+    getNotes(): ReviewNote[] {
+        return [...this.notes];
+    }
+
+    getNoteCount(uri: vscode.Uri): number {
+        return this.notes.filter(n => n.fsPath === uri.fsPath).length;
+    }
+
+    /**
+     * Save the text typed into a comment thread as a note on that line
+     */
+    addLineNote(reply: vscode.CommentReply): void {
+        const thread = reply.thread;
+        const body = reply.text.trim();
+        const target = this.resolveTarget(thread.uri);
+        if (!body || !target || !thread.range) return;
+
+        const line = thread.range.start.line;
+        const note = this.createNote(target.uri, target.side, body, line, this.getLineText(thread.uri, line));
+
+        // Threads are keyed by line, so a second thread on the same line merges into the first
+        const key = this.getThreadKey(note);
+        const existing = this.threads.get(key);
+        if (existing && existing !== thread) {
+            thread.dispose();
+        } else if (!existing) {
+            this.threads.set(key, thread);
+        }
+        this.addToThread(note);
+        this.save();
+    }
+
+    /**
+     * A note on the file as a whole, not shown in any editor
+     */
+    addFileNote(uri: vscode.Uri, body: string): void {
+        this.createNote(uri, 'current', body.trim());
+        this.save();
+    }
+
+    deleteNote(id: string): void {
+        const note = this.notes.find(n => n.id === id);
+        if (!note) return;
+
+        this.notes = this.notes.filter(n => n.id !== id);
+        if (note.line !== undefined) {
+            const key = this.getThreadKey(note);
+            const thread = this.threads.get(key);
+            if (thread) {
+                thread.comments = thread.comments.filter(c => !(c instanceof NoteComment) || c.note.id !== id);
+                if (thread.comments.length === 0) {
+                    thread.dispose();
+                    this.threads.delete(key);
+                }
+            }
+        }
+        this.save();
+    }
+
+    /**
+     * Delete every note in a thread, or just close it if it has none yet
+     */
+    deleteThread(thread: vscode.CommentThread): void {
+        const ids = thread.comments
+            .filter((c): c is NoteComment => c instanceof NoteComment)
+            .map(c => c.note.id);
+        if (ids.length === 0) {
+            thread.dispose();
+            return;
+        }
+        // Deleting the last note disposes the thread
+        for (const id of ids) {
+            this.deleteNote(id);
+        }
+    }
+
+    /**
+     * Move the notes of kept or undone files out of the way, keeping a bounded history
+     */
+    archive(uris: vscode.Uri[]): void {
+        const paths = new Set(uris.map(u => u.fsPath));
+        const archived = this.notes.filter(n => paths.has(n.fsPath));
+        if (archived.length === 0) return;
+
+        this.notes = this.notes.filter(n => !paths.has(n.fsPath));
+        this.archived = [...this.archived, ...archived].slice(-MAX_ARCHIVED_NOTES);
+        for (const [key, thread] of [...this.threads]) {
+            const fsPath = this.resolveTarget(thread.uri)?.uri.fsPath;
+            if (fsPath && paths.has(fsPath)) {
+                thread.dispose();
+                this.threads.delete(key);
+            }
+        }
+        this.save();
+    }
+
+    /**
+     * The notes as a Markdown review, grouped by file, ready to paste back to an agent
+     */
+    toMarkdown(notes: ReviewNote[] = this.notes): string {
+        const files = new Map<string, ReviewNote[]>();
+        for (const note of notes) {
+            files.set(note.relativePath, [...(files.get(note.relativePath) ?? []), note]);
+        }
+
+        let output = '# Review notes\n';
+        for (const [relativePath, fileNotes] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+            output += `\n## \`${relativePath}\`\n\n`;
+
+            // File notes first, then by line
+            const sorted = [...fileNotes].sort((a, b) => (a.line ?? -1) - (b.line ?? -1));
+            for (const note of sorted) {
+                output += `- ${formatLocation(note)}${indentBody(note.body)}\n`;
+            }
+        }
+        return output;
+    }
+
+    private createNote(uri: vscode.Uri, side: ReviewNote['side'], body: string, line?: number, excerpt?: string): ReviewNote {
+        const note: ReviewNote = {
+            id: `note-${Date.now()}-${this.nextId++}`,
+            fsPath: uri.fsPath,
+            relativePath: this.snapshotManager.getSnapshot(uri)?.relativePath ?? vscode.workspace.asRelativePath(uri),
+            side,
+            line,
+            excerpt,
+            body,
+            createdAt: Date.now()
+        };
+        this.notes.push(note);
+        return note;
+    }
+
+    private addToThread(note: ReviewNote): void {
+        const key = this.getThreadKey(note);
+        let thread = this.threads.get(key);
+        if (!thread) {
+            const uri = note.side === 'original'
+                ? OriginalContentProvider.baselineUri(vscode.Uri.file(note.fsPath), 'Original')
+                : vscode.Uri.file(note.fsPath);
+            thread = this.controller.createCommentThread(uri, new vscode.Range(note.line!, 0, note.line!, 0), []);
+            this.threads.set(key, thread);
+        }
+        thread.label = `Line ${note.line! + 1}`;
+        thread.contextValue = 'reviewNotes';
+        thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+        thread.comments = [...thread.comments, new NoteComment(note)];
+    }
+
+    private getThreadKey(note: ReviewNote): string {
+        return `${note.side}:${note.fsPath}:${note.line}`;
+    }
+
+    /**
+     * Notes go on tracked files and on the original side of their diffs
+     */
+    private isReviewable(uri: vscode.Uri): boolean {
+        const target = this.resolveTarget(uri);
+        if (!target) return false;
+        return this.snapshotManager.hasSnapshot(target.uri) ||
+            this.snapshotManager.getDeletedSnapshots().some(s => s.uri.fsPath === target.uri.fsPath);
+    }
+
+    private resolveTarget(uri: vscode.Uri): { uri: vscode.Uri; side: ReviewNote['side'] } | undefined {
+        if (uri.scheme === 'file') {
+            return { uri, side: 'current' };
+        }
+        if (uri.scheme === OriginalContentProvider.scheme && uri.query === 'Original') {
+            return { uri: vscode.Uri.file(uri.path), side: 'original' };
+        }
+        return undefined;
+    }
+
+    private getLineText(uri: vscode.Uri, line: number): string | undefined {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        return document && line < document.lineCount ? document.lineAt(line).text : undefined;
+    }
+
+    private save(): void {
+        const state: ReviewNotesState = { notes: this.notes, archived: this.archived };
+        this.state.update(STATE_KEY, state);
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+        this._onDidChange.dispose();
+    }
+}
+
+function formatLocation(note: ReviewNote): string {
+    if (note.line === undefined) return '';
+
+    const where = note.side === 'original'
+        ? `**Line ${note.line + 1} (original)**`
+        : `**Line ${note.line + 1}**`;
+    const excerpt = note.excerpt?.trim();
+    return excerpt ? `${where} \`${excerpt.replace(/`/g, "'")}\`: ` : `${where}: `;
+}
+
+/**
+ * Continuation lines of a multi-line note stay inside its list item
+ */
+function indentBody(body: string): string {
+    return body.split(/\r?\n/).join('\n  ');
+}
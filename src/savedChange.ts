@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { SnapshotManager, FileChange, ChangeOrigin } from './snapshotManager';
+
+/**
+ * A pending change saved away from the working tree (by Undo or by shelving):
+ * the version the file had, and the baseline it was reverted to
+ */
+export interface SavedChange {
+    fsPath: string;
+    relativePath: string;
+    changeType: FileChange['changeType'];
+    previousFsPath?: string;        // renamed only: where reverting moved the file back to
+    originalContent: string;
+    originalBase64?: string;        // binary files only
+    content: string | null;         // the saved version; null when the change was a deletion
+    contentBase64?: string;         // binary files only
+    origins?: ChangeOrigin[];
+    revertedContent?: string;       // what the file held after a partial revert (one hunk), instead of the baseline
+}
+
+/**
+ * Read the version of a change that is about to be reverted. Call before reverting.
+ */
+export async function saveChange(change: FileChange): Promise<SavedChange | undefined> {
+    const saved: SavedChange = {
+        fsPath: change.uri.fsPath,
+        relativePath: change.relativePath,
+        changeType: change.changeType,
+        previousFsPath: change.previousUri?.fsPath,
+        originalContent: change.originalContent,
+        content: change.changeType === 'deleted' ? null : change.currentContent,
+        origins: change.origins
+    };
+
+    if (change.binary) {
+        saved.originalContent = '';
+        saved.originalBase64 = change.binary.originalBytes.toString('base64');
+        if (saved.content !== null) {
+            try {
+                saved.content = '';
+                saved.contentBase64 = (await fs.promises.readFile(change.uri.fsPath)).toString('base64');
+            } catch (error) {
+                console.error(`Failed to save the current version of ${change.relativePath}`, error);
+                return undefined;
+            }
+        }
+    }
+    return saved;
+}
+
+export function getSavedSize(saved: SavedChange): number {
+    return (saved.content?.length ?? 0) + saved.originalContent.length +
+        (saved.contentBase64?.length ?? 0) + (saved.originalBase64?.length ?? 0);
+}
+
+/**
+ * True if the file is still as reverting left it, so putting the saved version back overwrites nothing
+ */
+export async function isUntouched(snapshotManager: SnapshotManager, saved: SavedChange): Promise<boolean> {
+    // Reverting left created and moved files gone, and everything else at its original content
+    const removed = saved.changeType === 'created' || saved.changeType === 'renamed';
+
+    if (saved.originalBase64 !== undefined) {
+        let current: Buffer | null;
+        try {
+            current = await fs.promises.readFile(saved.fsPath);
+        } catch {
+            current = null;
+        }
+        return removed ? current === null : current !== null && current.equals(Buffer.from(saved.originalBase64, 'base64'));
+    }
+    const current = await snapshotManager.getCurrentContent(vscode.Uri.file(saved.fsPath));
+    return current === (removed ? null : saved.revertedContent ?? saved.originalContent);
+}
+
+/**
+ * Put a saved version back as a pending change against its original baseline
+ */
+export async function restoreChange(snapshotManager: SnapshotManager, saved: SavedChange): Promise<boolean> {
+    const uri = vscode.Uri.file(saved.fsPath);
+    const original = saved.originalBase64 !== undefined ? Buffer.from(saved.originalBase64, 'base64') : saved.originalContent;
+    const content = saved.contentBase64 !== undefined ? Buffer.from(saved.contentBase64, 'base64') : saved.content;
+
+    if (saved.changeType === 'renamed' && saved.previousFsPath) {
+        // Move it away again: the old path goes back to deleted, the new one is created
+        const previousUri = vscode.Uri.file(saved.previousFsPath);
+        snapshotManager.ensureSnapshot(previousUri, original, false);
+        snapshotManager.ensureSnapshot(uri, '', true);
+        recordOrigins(snapshotManager, previousUri, saved);
+        recordOrigins(snapshotManager, uri, saved);
+        return await snapshotManager.writeFileContent(uri, content) &&
+            await snapshotManager.writeFileContent(previousUri, null);
+    }
+
+    snapshotManager.ensureSnapshot(uri, original, saved.changeType === 'created');
+    recordOrigins(snapshotManager, uri, saved);
+    return snapshotManager.writeFileContent(uri, content);
+}
+
+function recordOrigins(snapshotManager: SnapshotManager, uri: vscode.Uri, saved: SavedChange): void {
+    for (const origin of saved.origins ?? []) {
+        snapshotManager.recordOrigin(uri, origin);
+    }
+}
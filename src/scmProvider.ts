@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { SnapshotManager, FileChange } from './snapshotManager';
+import { OriginalContentProvider } from './diffViewer';
+
+const CHANGE_LABELS: Record<FileChange['changeType'], string> = {
+    modified: 'Modified',
+    created: 'Created',
+    deleted: 'Deleted',
+    renamed: 'Renamed'
+};
+
+/**
+ * Lists pending changes in the Source Control view, and gives VS Code's own gutter
+ * diff and "peek change" the snapshot as the original instead of git
+ */
+export class PendingChangesScmProvider implements vscode.Disposable, vscode.QuickDiffProvider {
+    private sourceControl: vscode.SourceControl;
+    private modifiedGroup: vscode.SourceControlResourceGroup;
+    private createdGroup: vscode.SourceControlResourceGroup;
+    private deletedGroup: vscode.SourceControlResourceGroup;
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private snapshotManager: SnapshotManager) {
+        this.sourceControl = vscode.scm.createSourceControl('pendingChanges', 'Pending Changes');
+        this.sourceControl.quickDiffProvider = this;
+        this.sourceControl.inputBox.visible = false;
+
+        this.modifiedGroup = this.sourceControl.createResourceGroup('modified', 'Modified');
+        this.createdGroup = this.sourceControl.createResourceGroup('created', 'Created');
+        this.deletedGroup = this.sourceControl.createResourceGroup('deleted', 'Deleted');
+        for (const group of [this.modifiedGroup, this.createdGroup, this.deletedGroup]) {
+            group.hideWhenEmpty = true;
+        }
+
+        this.disposables.push(
+            this.sourceControl,
+            this.modifiedGroup,
+            this.createdGroup,
+            this.deletedGroup,
+            snapshotManager.onSnapshotsChanged(() => this.scheduleRefresh()),
+            vscode.workspace.onDidChangeTextDocument(() => this.scheduleRefresh()),
+            vscode.workspace.onDidSaveTextDocument(() => this.scheduleRefresh())
+        );
+
+        this.refresh();
+    }
+
+    provideOriginalResource(uri: vscode.Uri): vscode.Uri | undefined {
+        const snapshot = this.snapshotManager.getSnapshot(uri);
+        if (uri.scheme !== 'file' || !snapshot || snapshot.isBinary) {
+            return undefined;
+        }
+        return OriginalContentProvider.snapshotUri(uri);
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => this.refresh(), 300);
+    }
+
+    async refresh(): Promise<void> {
+        const changes = await this.snapshotManager.getChangedFiles();
+        const sorted = [...changes].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+        this.modifiedGroup.resourceStates = sorted
+            .filter(c => c.changeType === 'modified' || c.changeType === 'renamed')
+            .map(c => this.toResourceState(c));
+        this.createdGroup.resourceStates = sorted
+            .filter(c => c.changeType === 'created')
+            .map(c => this.toResourceState(c));
+        this.deletedGroup.resourceStates = sorted
+            .filter(c => c.changeType === 'deleted')
+            .map(c => this.toResourceState(c));
+        this.sourceControl.count = changes.length;
+    }
+
+    /**
+     * Resource states carry the change the way the webview sends it,
+     * so the existing Keep / Undo / Show Diff commands accept them as they are
+     */
+    private toResourceState(change: FileChange): vscode.SourceControlResourceState & { change: { uri: string; relativePath: string; changeType: string } } {
+        const stats = change.binary
+            ? 'binary'
+            : `+${change.additions} -${change.deletions}`;
+        const tooltip = change.previousRelativePath
+            ? `${CHANGE_LABELS[change.changeType]} from ${change.previousRelativePath} (${stats})`
+            : `${CHANGE_LABELS[change.changeType]} (${stats})`;
+        const item = {
+            uri: change.uri.fsPath,
+            relativePath: change.relativePath,
+            changeType: change.changeType
+        };
+
+        return {
+            resourceUri: change.uri,
+            change: item,
+            command: {
+                command: 'pendingChanges.showDiff',
+                title: 'Show Diff',
+                arguments: [{ change: item }]
+            },
+            decorations: {
+                tooltip,
+                strikeThrough: change.changeType === 'deleted',
+                faded: change.changeType === 'deleted'
+            },
+            contextValue: change.changeType
+        };
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+    }
+}
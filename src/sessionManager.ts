@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { FileChange } from './snapshotManager';
+import { CheckpointManager } from './checkpointManager';
+
+/**
+ * A named stretch of work, such as one agent turn, bracketed by a checkpoint taken when it began
+ */
+export interface Session {
+    id: string;
+    name: string;
+    startedAt: Date;
+    checkpointId: string;
+}
+
+/**
+ * Sessions begun and ended by other extensions through the API. The checkpoint at the start
+ * shows up in the Checkpoints section, so a session can be compared or rolled back like any other.
+ */
+export class SessionManager implements vscode.Disposable {
+    private sessions: Session[] = [];   // active only, oldest first
+    private nextId = 1;
+
+    private _onSessionsChanged = new vscode.EventEmitter<void>();
+    readonly onSessionsChanged = this._onSessionsChanged.event;
+
+    constructor(private checkpointManager: CheckpointManager) {}
+
+    getActiveSessions(): Session[] {
+        return [...this.sessions];
+    }
+
+    getSession(id: string): Session | undefined {
+        return this.sessions.find(s => s.id === id);
+    }
+
+    async begin(name: string): Promise<Session> {
+        const checkpoint = await this.checkpointManager.createCheckpoint(`Before ${name}`);
+        const session: Session = {
+            id: `session-${this.nextId++}`,
+            name,
+            startedAt: checkpoint.createdAt,
+            checkpointId: checkpoint.id
+        };
+        this.sessions.push(session);
+        this._onSessionsChanged.fire();
+        return session;
+    }
+
+    /**
+     * End a session and return what changed during it, relative to its starting checkpoint.
+     * Undefined if no such session is active.
+     */
+    async end(id: string): Promise<FileChange[] | undefined> {
+        const session = this.getSession(id);
+        if (!session) return undefined;
+
+        this.sessions = this.sessions.filter(s => s.id !== id);
+        this._onSessionsChanged.fire();
+
+        // The user may have deleted the checkpoint in the meantime
+        const checkpoint = this.checkpointManager.getCheckpoint(session.checkpointId);
+        return checkpoint ? this.checkpointManager.getChangesSince(checkpoint) : [];
+    }
+
+    dispose(): void {
+        this._onSessionsChanged.dispose();
+    }
+}
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SnapshotManager, FileChange } from './snapshotManager';
+import { JsonFile } from './jsonFile';
+import { SavedChange, saveChange, isUntouched, restoreChange } from './savedChange';
+
+const SHELVES_FILE = 'shelves.json';
+
+export interface ShelvedFile extends SavedChange {
+    conflict?: boolean;     // set when an unshelve found the file changed since it was shelved
+}
+
+export interface Shelf {
+    id: string;
+    name: string;
+    createdAt: number;
+    files: ShelvedFile[];
+}
+
+export interface UnshelveResult {
+    restored: string[];     // relative paths
+    conflicts: string[];    // left on the shelf
+    failed: string[];       // left on the shelf
+}
+
+/**
+ * Named sets of pending changes set aside: the files go back to their baselines
+ * and come back as pending changes when unshelved
+ */
+export class ShelfManager implements vscode.Disposable {
+    private readonly file: JsonFile<Shelf[]>;
+    private shelves: Shelf[] = [];   // oldest first
+    private nextId = 0;
+
+    private _onShelvesChanged = new vscode.EventEmitter<void>();
+    readonly onShelvesChanged = this._onShelvesChanged.event;
+
+    constructor(private snapshotManager: SnapshotManager, storageUri: vscode.Uri) {
+        this.file = new JsonFile(path.join(storageUri.fsPath, SHELVES_FILE), 'shelves');
+    }
+
+    async load(): Promise<void> {
+        const shelves = await this.file.read();
+        if (shelves) {
+            this.shelves = shelves;
+            this._onShelvesChanged.fire();
+        }
+    }
+
+    /**
+     * Newest first
+     */
+    getShelves(): Shelf[] {
+        return [...this.shelves].reverse();
+    }
+
+    getShelf(id: string): Shelf | undefined {
+        return this.shelves.find(s => s.id === id);
+    }
+
+    /**
+     * Save the changes under a name and revert them. Files that could not be
+     * reverted stay pending and are left off the shelf.
+     */
+    async shelve(name: string, changes: FileChange[]): Promise<{ shelf: Shelf | undefined; failed: string[] }> {
+        const files: ShelvedFile[] = [];
+        const failed: string[] = [];
+
+        for (const change of changes) {
+            const saved = await saveChange(change);
+            if (!saved) {
+                failed.push(change.relativePath);
+                continue;
+            }
+            const reverted = change.changeType === 'renamed'
+                ? await this.snapshotManager.revertRename(change)
+                : await this.snapshotManager.revertFile(change.uri);
+            if (reverted) {
+                files.push(saved);
+            } else {
+                failed.push(change.relativePath);
+            }
+        }
+
+        if (files.length === 0) {
+            return { shelf: undefined, failed };
+        }
+
+        const shelf: Shelf = {
+            id: `shelf-${Date.now()}-${this.nextId++}`,
+            name,
+            createdAt: Date.now(),
+            files
+        };
+        this.shelves.push(shelf);
+        this.save();
+        return { shelf, failed };
+    }
+
+    /**
+     * Relative paths of shelved files that changed since they were shelved
+     */
+    async getConflicts(shelf: Shelf): Promise<string[]> {
+        const conflicts: string[] = [];
+        for (const file of shelf.files) {
+            if (!await isUntouched(this.snapshotManager, file)) {
+                conflicts.push(file.relativePath);
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * Put the shelved versions back as pending changes. Unless `overwrite` is set, files that
+     * changed since they were shelved are flagged as conflicts and stay on the shelf.
+     * An emptied shelf is removed.
+     */
+    async unshelve(shelf: Shelf, overwrite: boolean): Promise<UnshelveResult> {
+        const result: UnshelveResult = { restored: [], conflicts: [], failed: [] };
+        const remaining: ShelvedFile[] = [];
+
+        for (const file of shelf.files) {
+            if (!overwrite && !await isUntouched(this.snapshotManager, file)) {
+                file.conflict = true;
+                result.conflicts.push(file.relativePath);
+                remaining.push(file);
+            } else if (await restoreChange(this.snapshotManager, file)) {
+                result.restored.push(file.relativePath);
+            } else {
+                result.failed.push(file.relativePath);
+                remaining.push(file);
+            }
+        }
+
+        shelf.files = remaining;
+        if (remaining.length === 0) {
+            this.shelves = this.shelves.filter(s => s.id !== shelf.id);
+        }
+        this.save();
+        return result;
+    }
+
+    deleteShelf(id: string): void {
+        this.shelves = this.shelves.filter(s => s.id !== id);
+        this.save();
+    }
+
+    private save(): void {
+        this.file.write(this.shelves);
+        this._onShelvesChanged.fire();
+    }
+
+    dispose(): void {
+        this._onShelvesChanged.dispose();
+    }
+}
@@ -1,6 +1,17 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { SnapshotStore, StoredSnapshot } from './snapshotStore';
+import { PathFilter } from './pathFilter';
+import { BinaryChange, isBinaryContent, isBinaryPath, isImagePath, hashContent } from './binaryFiles';
+import { DiffHunk, computeHunks, countHunkLines, similarity, hunksEqual, replaceLines, applyReplacement, splitLines } from './lineDiff';
+
+/**
+ * Where a change came from: typing in an editor, a write to disk from outside the editor
+ * (an agent, tool or script), a create/delete/rename through VS Code, or an edit
+ * VS Code applied to a file that wasn't being typed in (a refactoring or other workspace edit)
+ */
+export type ChangeOrigin = 'edit' | 'external' | 'fileOperation' | 'refactor';
 
 export interface FileSnapshot {
     uri: vscode.Uri;
@@ -8,6 +19,9 @@ export interface FileSnapshot {
     snapshotTime: Date;
     relativePath: string;
     isNewFile: boolean;  // true if file was created (didn't exist before)
+    isBinary?: boolean;  // baseline lives in originalBytes; originalContent is unused
+    originalBytes?: Buffer;
+    origins?: ChangeOrigin[];  // every kind of change seen since the snapshot, in order
 }
 
 export interface FileChange {
@@ -16,21 +30,195 @@ export interface FileChange {
     originalContent: string;
     currentContent: string;
     snapshotTime: Date;
-    changeType: 'modified' | 'created' | 'deleted';
+    workspaceFolder: string | undefined;  // name of the workspace folder containing the file
+    changeType: 'modified' | 'created' | 'deleted' | 'renamed';
     additions: number;
     deletions: number;
+    hunks: DiffHunk[];  // exact line ranges that differ; additions/deletions are derived from these
+    previousUri?: vscode.Uri;          // renamed only: where the file used to be
+    previousRelativePath?: string;
+    binary?: BinaryChange;             // binary files only: no hunks, compared byte for byte
+    contentHash: string;               // hash of the current content ('' when deleted), to notice later writes
+    origins: ChangeOrigin[];
+}
+
+// A deleted and a created file at least this similar are treated as one move
+const RENAME_SIMILARITY_THRESHOLD = 0.5;
+
+// Rename scores are remembered per content pair; the cache starts over beyond this many
+const MAX_RENAME_SCORES = 1000;
+
+// How long file watcher events caused by our own writes are ignored
+const OWN_WRITE_GRACE_MS = 2000;
+
+export interface RestoreReport {
+    restored: number;
+    vanished: string[];        // relative paths of files that disappeared while we weren't watching
+    changedOnDisk: string[];   // relative paths of files modified while we weren't watching
 }
 
 export class SnapshotManager {
     private snapshots: Map<string, FileSnapshot> = new Map();
     private deletedFiles: Map<string, FileSnapshot> = new Map(); // Track deleted files
-    private workspaceRoot: string | undefined;
     private _onSnapshotsChanged = new vscode.EventEmitter<void>();
     readonly onSnapshotsChanged = this._onSnapshotsChanged.event;
+    private persistTimer: NodeJS.Timeout | undefined;
+    private persisting: Promise<void> = Promise.resolve();
+    private ownWrites: Map<string, number> = new Map();  // fsPath -> time until which events are ignored
+    private baselineSource: ((uri: vscode.Uri) => Promise<Buffer | undefined>) | undefined;
+    private renameScores: Map<string, { score: number; hunks?: DiffHunk[] }> = new Map();  // "deleted hash:created hash"
+
+    constructor(private store?: SnapshotStore, private pathFilter?: PathFilter) {
+        this.onSnapshotsChanged(() => this.schedulePersist());
 
-    constructor() {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        this.workspaceRoot = workspaceFolders?.[0]?.uri.fsPath;
+        // Relative paths depend on which folders are open
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            for (const snapshot of [...this.snapshots.values(), ...this.deletedFiles.values()]) {
+                snapshot.relativePath = this.getRelativePath(snapshot.uri);
+            }
+            this._onSnapshotsChanged.fire();
+        });
+    }
+
+    /**
+     * Where new baselines come from instead of the watcher's cache (e.g. git HEAD).
+     * The source returns undefined for files it has no baseline for.
+     */
+    setBaselineSource(source: (uri: vscode.Uri) => Promise<Buffer | undefined>): void {
+        this.baselineSource = source;
+    }
+
+    /**
+     * Restore snapshots saved by a previous session and check them against the files on disk
+     */
+    async restore(): Promise<RestoreReport> {
+        const report: RestoreReport = { restored: 0, vanished: [], changedOnDisk: [] };
+        const state = await this.store?.load();
+        if (!state) return report;
+
+        for (const stored of state.snapshots) {
+            const uri = vscode.Uri.file(stored.fsPath);
+            // Something newer was captured since activation - keep it
+            if (this.snapshots.has(uri.fsPath)) continue;
+
+            const snapshot = this.fromStored(stored);
+            const currentHash = await this.hashCurrent(snapshot);
+            if (currentHash === null) {
+                report.vanished.push(stored.relativePath);
+                // A created file that is gone again leaves nothing to review
+                if (stored.isNewFile) continue;
+            } else if (stored.currentHash !== null && currentHash !== stored.currentHash) {
+                report.changedOnDisk.push(stored.relativePath);
+            }
+
+            this.snapshots.set(uri.fsPath, snapshot);
+            report.restored++;
+        }
+
+        for (const stored of state.deletedFiles) {
+            const uri = vscode.Uri.file(stored.fsPath);
+            if (this.snapshots.has(uri.fsPath) || this.deletedFiles.has(uri.fsPath)) continue;
+
+            if (await this.readFileBytes(uri) !== null) {
+                // The file came back while we weren't watching - review it as a modification
+                report.changedOnDisk.push(stored.relativePath);
+                this.snapshots.set(uri.fsPath, this.fromStored(stored));
+            } else {
+                this.deletedFiles.set(uri.fsPath, this.fromStored(stored));
+            }
+            report.restored++;
+        }
+
+        if (report.restored > 0) {
+            this._onSnapshotsChanged.fire();
+        }
+        return report;
+    }
+
+    /**
+     * Save soon - used when tracked files change without the snapshot set changing
+     */
+    schedulePersist(): void {
+        if (!this.store) return;
+        if (this.persistTimer) clearTimeout(this.persistTimer);
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = undefined;
+            this.persist();
+        }, 500);
+    }
+
+    /**
+     * Write any pending state immediately (called on deactivate)
+     */
+    async flush(): Promise<void> {
+        if (!this.persistTimer) {
+            // Still let a write already under way finish
+            await this.persisting;
+            return;
+        }
+        clearTimeout(this.persistTimer);
+        this.persistTimer = undefined;
+        await this.persist();
+    }
+
+    /**
+     * Persists run one after another, each hashing the files as they are when it starts,
+     * so an older state never lands after a newer one
+     */
+    private persist(): Promise<void> {
+        this.persisting = this.persisting.then(() => this.writeStore());
+        return this.persisting;
+    }
+
+    private async writeStore(): Promise<void> {
+        if (!this.store) return;
+
+        try {
+            const snapshots: StoredSnapshot[] = [];
+            for (const snapshot of this.snapshots.values()) {
+                snapshots.push(this.toStored(snapshot, await this.hashCurrent(snapshot)));
+            }
+            const deletedFiles = Array.from(this.deletedFiles.values()).map(snapshot => this.toStored(snapshot, null));
+
+            await this.store.save(snapshots, deletedFiles);
+        } catch (error) {
+            console.error('Failed to persist snapshots', error);
+        }
+    }
+
+    private toStored(snapshot: FileSnapshot, currentHash: string | null): StoredSnapshot {
+        return {
+            fsPath: snapshot.uri.fsPath,
+            originalContent: snapshot.originalContent,
+            snapshotTime: snapshot.snapshotTime.toISOString(),
+            relativePath: snapshot.relativePath,
+            isNewFile: snapshot.isNewFile,
+            isBinary: snapshot.isBinary,
+            originalBase64: snapshot.originalBytes?.toString('base64'),
+            origins: snapshot.origins,
+            currentHash
+        };
+    }
+
+    private async hashCurrent(snapshot: FileSnapshot): Promise<string | null> {
+        const current = snapshot.isBinary
+            ? await this.readFileBytes(snapshot.uri)
+            : await this.readFileContent(snapshot.uri);
+        return current === null ? null : hashContent(current);
+    }
+
+    private fromStored(stored: StoredSnapshot): FileSnapshot {
+        const uri = vscode.Uri.file(stored.fsPath);
+        return {
+            uri,
+            originalContent: stored.originalContent,
+            snapshotTime: new Date(stored.snapshotTime),
+            relativePath: this.getRelativePath(uri),
+            isNewFile: stored.isNewFile,
+            isBinary: stored.isBinary,
+            originalBytes: stored.originalBase64 !== undefined ? Buffer.from(stored.originalBase64, 'base64') : undefined,
+            origins: stored.origins
+        };
     }
 
     /**
@@ -38,8 +226,8 @@ export class SnapshotManager {
      */
     async snapshotFile(uri: vscode.Uri): Promise<void> {
         try {
-            const content = await this.readFileContent(uri);
-            if (content === null) return;
+            const baseline = await this.readSnapshotContent(uri);
+            if (baseline === null) return;
 
             const key = uri.fsPath;
             const relativePath = this.getRelativePath(uri);
@@ -51,7 +239,7 @@ export class SnapshotManager {
 
             this.snapshots.set(key, {
                 uri,
-                originalContent: content,
+                ...baseline,
                 snapshotTime: new Date(),
                 relativePath,
                 isNewFile: false
@@ -65,25 +253,33 @@ export class SnapshotManager {
 
     /**
      * Auto-snapshot: Called when a file is about to be modified
-     * Captures the CURRENT content before any changes
+     * Captures the CURRENT content before any changes, unless the
+     * caller already knows what the file looked like before
      */
-    async autoSnapshotBeforeChange(uri: vscode.Uri): Promise<void> {
+    async autoSnapshotBeforeChange(uri: vscode.Uri, knownOriginal?: string | Buffer): Promise<void> {
         const key = uri.fsPath;
         
         // Already have a snapshot - don't overwrite
-        if (this.snapshots.has(key)) {
+        if (this.snapshots.has(key) || this.isExcluded(uri)) {
             return;
         }
 
         try {
-            const content = await this.readFileContent(uri);
-            if (content === null) return;
+            const sourced = await this.baselineSource?.(uri);
+            if (this.snapshots.has(key)) return;
+
+            const baseline = sourced !== undefined
+                ? this.toSnapshotContent(uri, sourced)
+                : knownOriginal !== undefined
+                    ? this.toSnapshotContent(uri, knownOriginal)
+                    : await this.readSnapshotContent(uri);
+            if (baseline === null) return;
 
             const relativePath = this.getRelativePath(uri);
 
             this.snapshots.set(key, {
                 uri,
-                originalContent: content,
+                ...baseline,
                 snapshotTime: new Date(),
                 relativePath,
                 isNewFile: false
@@ -106,6 +302,15 @@ export class SnapshotManager {
             return;
         }
 
+        // Deleted and created again - review it against what was deleted
+        const deletedSnapshot = this.deletedFiles.get(key);
+        if (deletedSnapshot) {
+            this.deletedFiles.delete(key);
+            this.snapshots.set(key, deletedSnapshot);
+            this._onSnapshotsChanged.fire();
+            return;
+        }
+
         const relativePath = this.getRelativePath(uri);
 
         this.snapshots.set(key, {
@@ -113,7 +318,8 @@ export class SnapshotManager {
             originalContent: '', // New file - original was empty/non-existent
             snapshotTime: new Date(),
             relativePath,
-            isNewFile: true
+            isNewFile: true,
+            isBinary: isBinaryPath(uri.fsPath)
         });
 
         this._onSnapshotsChanged.fire();
@@ -122,20 +328,32 @@ export class SnapshotManager {
     /**
      * Track a deleted file - save its content so it can be restored
      */
-    async trackDeletedFile(uri: vscode.Uri, lastKnownContent?: string): Promise<void> {
+    async trackDeletedFile(uri: vscode.Uri, lastKnownContent?: string | Buffer): Promise<void> {
         const key = uri.fsPath;
         const relativePath = this.getRelativePath(uri);
 
         // If we had a snapshot, use that original content
         const existingSnapshot = this.snapshots.get(key);
-        const content = existingSnapshot?.originalContent ?? lastKnownContent ?? '';
+
+        // Created and deleted again - there is nothing to restore
+        if (existingSnapshot?.isNewFile) {
+            this.snapshots.delete(key);
+            this._onSnapshotsChanged.fire();
+            return;
+        }
+
+        const sourced = existingSnapshot ? undefined : await this.baselineSource?.(uri);
+        const baseline = existingSnapshot
+            ? { originalContent: existingSnapshot.originalContent, isBinary: existingSnapshot.isBinary, originalBytes: existingSnapshot.originalBytes }
+            : this.toSnapshotContent(uri, sourced ?? lastKnownContent ?? '');
 
         this.deletedFiles.set(key, {
             uri,
-            originalContent: content,
+            ...baseline,
             snapshotTime: new Date(),
             relativePath,
-            isNewFile: false
+            isNewFile: false,
+            origins: existingSnapshot?.origins
         });
 
         // Remove from active snapshots
@@ -151,7 +369,7 @@ export class SnapshotManager {
 
     async snapshotAllOpenFiles(): Promise<number> {
         const openDocuments = vscode.workspace.textDocuments.filter(
-            doc => doc.uri.scheme === 'file' && !doc.isUntitled
+            doc => doc.uri.scheme === 'file' && !doc.isUntitled && !this.isExcluded(doc.uri)
         );
         
         let count = 0;
@@ -165,6 +383,82 @@ export class SnapshotManager {
         return count;
     }
 
+    /**
+     * Make sure a file is tracked against the given baseline (used when rolling back to a checkpoint
+     * or importing a patch). An existing snapshot keeps its own baseline; a deleted-file entry
+     * becomes a regular snapshot again.
+     */
+    ensureSnapshot(uri: vscode.Uri, originalContent: string | Buffer, isNewFile: boolean): void {
+        const key = uri.fsPath;
+        const deletedSnapshot = this.deletedFiles.get(key);
+        this.deletedFiles.delete(key);
+
+        if (!this.snapshots.has(key)) {
+            this.snapshots.set(key, deletedSnapshot ?? {
+                uri,
+                ...(isNewFile ? { originalContent: '', isBinary: isBinaryPath(uri.fsPath) } : this.toSnapshotContent(uri, originalContent)),
+                snapshotTime: new Date(),
+                relativePath: this.getRelativePath(uri),
+                isNewFile
+            });
+        }
+        this._onSnapshotsChanged.fire();
+    }
+
+    /**
+     * Overwrite a tracked file without touching its snapshot. `null` deletes the file;
+     * bytes are written as they are, bypassing any open editor.
+     */
+    async writeFileContent(uri: vscode.Uri, content: string | Buffer | null): Promise<boolean> {
+        try {
+            this.markOwnWrite(uri);
+            if (content === null) {
+                try {
+                    await fs.promises.unlink(uri.fsPath);
+                } catch (e) {
+                    // File might already be deleted
+                }
+                return true;
+            }
+
+            if (Buffer.isBuffer(content)) {
+                await fs.promises.mkdir(path.dirname(uri.fsPath), { recursive: true });
+                await fs.promises.writeFile(uri.fsPath, content);
+                return true;
+            }
+
+            const openDoc = vscode.workspace.textDocuments.find(
+                doc => doc.uri.fsPath === uri.fsPath
+            );
+            if (openDoc) {
+                const edit = new vscode.WorkspaceEdit();
+                edit.replace(uri, new vscode.Range(
+                    openDoc.positionAt(0),
+                    openDoc.positionAt(openDoc.getText().length)
+                ), content);
+                const success = await vscode.workspace.applyEdit(edit);
+                if (success) {
+                    await openDoc.save();
+                }
+                return success;
+            }
+
+            await fs.promises.mkdir(path.dirname(uri.fsPath), { recursive: true });
+            await fs.promises.writeFile(uri.fsPath, content, 'utf-8');
+            return true;
+        } catch (error) {
+            console.error(`Failed to write file: ${uri.fsPath}`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Current content of a file (open editor first, then disk), or null if it doesn't exist
+     */
+    async getCurrentContent(uri: vscode.Uri): Promise<string | null> {
+        return this.readFileContent(uri);
+    }
+
     hasSnapshot(uri: vscode.Uri): boolean {
         return this.snapshots.has(uri.fsPath);
     }
@@ -173,12 +467,48 @@ export class SnapshotManager {
         return this.snapshots.get(uri.fsPath);
     }
 
+    /**
+     * Note what kind of change touched a tracked file
+     */
+    recordOrigin(uri: vscode.Uri, origin: ChangeOrigin): void {
+        const snapshot = this.snapshots.get(uri.fsPath) ?? this.deletedFiles.get(uri.fsPath);
+        if (!snapshot || snapshot.origins?.includes(origin)) return;
+
+        snapshot.origins = [...(snapshot.origins ?? []), origin];
+        this.schedulePersist();
+        this._onSnapshotsChanged.fire();
+    }
+
     removeSnapshot(uri: vscode.Uri): void {
         this.snapshots.delete(uri.fsPath);
         this.deletedFiles.delete(uri.fsPath);
         this._onSnapshotsChanged.fire();
     }
 
+    /**
+     * Stop tracking files that are now excluded or ignored, leaving them as they are.
+     * Returns how many snapshots were dropped.
+     */
+    untrackExcluded(): number {
+        let count = 0;
+        for (const map of [this.snapshots, this.deletedFiles]) {
+            for (const [key, snapshot] of map) {
+                if (this.isExcluded(snapshot.uri)) {
+                    map.delete(key);
+                    count++;
+                }
+            }
+        }
+        if (count > 0) {
+            this._onSnapshotsChanged.fire();
+        }
+        return count;
+    }
+
+    isExcluded(uri: vscode.Uri): boolean {
+        return this.pathFilter?.isExcluded(uri) ?? false;
+    }
+
     clearAllSnapshots(): void {
         this.snapshots.clear();
         this.deletedFiles.clear();
@@ -191,53 +521,28 @@ export class SnapshotManager {
         // Check modified/created files
         for (const [key, snapshot] of this.snapshots) {
             try {
+                if (snapshot.isBinary || (snapshot.isNewFile && await this.detectBinary(snapshot))) {
+                    const binaryChange = await this.getBinaryChange(snapshot);
+                    if (binaryChange) {
+                        changes.push(binaryChange);
+                    }
+                    continue;
+                }
+
                 const currentContent = await this.readFileContent(snapshot.uri);
                 
                 if (currentContent === null) {
                     // File was deleted after we snapshotted it
                     if (!snapshot.isNewFile) {
-                        changes.push({
-                            uri: snapshot.uri,
-                            relativePath: snapshot.relativePath,
-                            originalContent: snapshot.originalContent,
-                            currentContent: '',
-                            snapshotTime: snapshot.snapshotTime,
-                            changeType: 'deleted',
-                            additions: 0,
-                            deletions: snapshot.originalContent.split('\n').length
-                        });
+                        changes.push(this.buildChange(snapshot, '', 'deleted'));
                     }
                     // If it was a new file that got deleted, just remove from tracking
                 } else if (snapshot.isNewFile) {
                     // Newly created file
-                    const { additions, deletions } = this.countChanges('', currentContent);
-                    changes.push({
-                        uri: snapshot.uri,
-                        relativePath: snapshot.relativePath,
-                        originalContent: '',
-                        currentContent,
-                        snapshotTime: snapshot.snapshotTime,
-                        changeType: 'created',
-                        additions,
-                        deletions
-                    });
+                    changes.push(this.buildChange(snapshot, currentContent, 'created'));
                 } else if (currentContent !== snapshot.originalContent) {
                     // File was modified
-                    const { additions, deletions } = this.countChanges(
-                        snapshot.originalContent,
-                        currentContent
-                    );
-                    
-                    changes.push({
-                        uri: snapshot.uri,
-                        relativePath: snapshot.relativePath,
-                        originalContent: snapshot.originalContent,
-                        currentContent,
-                        snapshotTime: snapshot.snapshotTime,
-                        changeType: 'modified',
-                        additions,
-                        deletions
-                    });
+                    changes.push(this.buildChange(snapshot, currentContent, 'modified'));
                 }
             } catch (error) {
                 console.error(`Error checking changes for ${key}:`, error);
@@ -245,20 +550,77 @@ export class SnapshotManager {
         }
 
         // Add deleted files
-        for (const [key, snapshot] of this.deletedFiles) {
-            changes.push({
-                uri: snapshot.uri,
-                relativePath: snapshot.relativePath,
-                originalContent: snapshot.originalContent,
-                currentContent: '',
-                snapshotTime: snapshot.snapshotTime,
-                changeType: 'deleted',
-                additions: 0,
-                deletions: snapshot.originalContent.split('\n').length
+        for (const snapshot of this.deletedFiles.values()) {
+            changes.push(snapshot.isBinary
+                ? this.buildBinaryChange(snapshot, null, 'deleted')
+                : this.buildChange(snapshot, '', 'deleted'));
+        }
+
+        return this.pairRenames(changes);
+    }
+
+    /**
+     * Merge deleted/created pairs with similar content into single 'renamed' changes
+     */
+    private pairRenames(changes: FileChange[]): FileChange[] {
+        const deleted = changes.filter(c => c.changeType === 'deleted' && !c.binary && c.originalContent !== '');
+        const created = changes.filter(c => c.changeType === 'created' && !c.binary);
+        if (deleted.length === 0 || created.length === 0) return changes;
+
+        // Score every candidate pair, then take the best matches first
+        const candidates: { from: FileChange; to: FileChange; score: number; key: string }[] = [];
+        const fromInfo = deleted.map(c => ({ hash: hashContent(c.originalContent), lines: splitLines(c.originalContent).length }));
+        const toLines = created.map(c => splitLines(c.currentContent).length);
+        deleted.forEach((from, i) => {
+            created.forEach((to, j) => {
+                // At most every line of the shorter file is shared - skip pairs that can't reach the threshold
+                const a = fromInfo[i].lines;
+                const b = toLines[j];
+                if (2 * Math.min(a, b) / (a + b) < RENAME_SIMILARITY_THRESHOLD) return;
+
+                const key = `${fromInfo[i].hash}:${to.contentHash}`;
+                let scored = this.renameScores.get(key);
+                if (!scored) {
+                    if (this.renameScores.size >= MAX_RENAME_SCORES) {
+                        this.renameScores.clear();
+                    }
+                    scored = { score: fromInfo[i].hash === to.contentHash ? 1 : similarity(from.originalContent, to.currentContent) };
+                    this.renameScores.set(key, scored);
+                }
+                if (scored.score >= RENAME_SIMILARITY_THRESHOLD) {
+                    candidates.push({ from, to, score: scored.score, key });
+                }
+            });
+        });
+        candidates.sort((a, b) => b.score - a.score);
+
+        const paired = new Set<FileChange>();
+        const renames: FileChange[] = [];
+        for (const { from, to, key } of candidates) {
+            if (paired.has(from) || paired.has(to)) continue;
+            paired.add(from);
+            paired.add(to);
+
+            const scored = this.renameScores.get(key);
+            const hunks = scored?.hunks ?? computeHunks(from.originalContent, to.currentContent);
+            if (scored) {
+                scored.hunks = hunks;
+            }
+            const { additions, deletions } = countHunkLines(hunks);
+            renames.push({
+                ...to,
+                originalContent: from.originalContent,
+                changeType: 'renamed',
+                additions,
+                deletions,
+                hunks,
+                previousUri: from.uri,
+                previousRelativePath: from.relativePath,
+                origins: [...new Set([...from.origins, ...to.origins])]
             });
         }
 
-        return changes;
+        return [...changes.filter(c => !paired.has(c)), ...renames];
     }
 
     async revertFile(uri: vscode.Uri): Promise<boolean> {
@@ -269,7 +631,12 @@ export class SnapshotManager {
         if (deletedSnapshot) {
             try {
                 // Recreate the file
-                await fs.promises.writeFile(uri.fsPath, deletedSnapshot.originalContent, 'utf-8');
+                this.markOwnWrite(uri);
+                if (deletedSnapshot.isBinary) {
+                    await fs.promises.writeFile(uri.fsPath, deletedSnapshot.originalBytes ?? Buffer.alloc(0));
+                } else {
+                    await fs.promises.writeFile(uri.fsPath, deletedSnapshot.originalContent, 'utf-8');
+                }
                 this.deletedFiles.delete(key);
                 this._onSnapshotsChanged.fire();
                 return true;
@@ -287,6 +654,7 @@ export class SnapshotManager {
         try {
             if (snapshot.isNewFile) {
                 // Delete the newly created file
+                this.markOwnWrite(uri);
                 try {
                     await fs.promises.unlink(uri.fsPath);
                 } catch (e) {
@@ -296,6 +664,14 @@ export class SnapshotManager {
                 return true;
             }
 
+            // Binary files are restored byte for byte, bypassing any editor
+            if (snapshot.isBinary) {
+                this.markOwnWrite(uri);
+                await fs.promises.writeFile(uri.fsPath, snapshot.originalBytes ?? Buffer.alloc(0));
+                this.removeSnapshot(uri);
+                return true;
+            }
+
             // Revert to original content
             const edit = new vscode.WorkspaceEdit();
             const document = await vscode.workspace.openTextDocument(uri);
@@ -305,6 +681,7 @@ export class SnapshotManager {
             );
             
             edit.replace(uri, fullRange, snapshot.originalContent);
+            this.markOwnWrite(uri);
             const success = await vscode.workspace.applyEdit(edit);
             
             if (success) {
@@ -319,6 +696,67 @@ export class SnapshotManager {
         }
     }
 
+    /**
+     * Undo a move: put the original content back at the old path and remove the new file
+     */
+    async revertRename(change: FileChange): Promise<boolean> {
+        if (change.changeType !== 'renamed' || !change.previousUri) return false;
+
+        const previousUri = change.previousUri;
+        try {
+            this.markOwnWrite(change.uri);
+            this.markOwnWrite(previousUri);
+
+            // Move through a WorkspaceEdit so open editors follow the file
+            const edit = new vscode.WorkspaceEdit();
+            edit.renameFile(change.uri, previousUri, { overwrite: false });
+            const moved = await vscode.workspace.applyEdit(edit);
+            if (!moved) return false;
+
+            // The moved file may have been edited after the move as well
+            await this.writeFileContent(previousUri, change.originalContent);
+
+            this.snapshots.delete(change.uri.fsPath);
+            this.snapshots.delete(previousUri.fsPath);
+            this.deletedFiles.delete(previousUri.fsPath);
+            this._onSnapshotsChanged.fire();
+            return true;
+        } catch (error) {
+            console.error(`Failed to move file back: ${change.uri.fsPath}`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Keep a move: forget the deleted original and accept the new file
+     */
+    async acceptRename(change: FileChange, updateCacheCallback?: (uri: vscode.Uri, content: string | Buffer) => void): Promise<void> {
+        if (change.previousUri) {
+            this.deletedFiles.delete(change.previousUri.fsPath);
+            this.snapshots.delete(change.previousUri.fsPath);
+        }
+        await this.acceptAndUpdateBaseline(change.uri, updateCacheCallback);
+        this._onSnapshotsChanged.fire();
+    }
+
+    /**
+     * True shortly after this class wrote, created or deleted the file itself,
+     * so the file watcher doesn't record our own writes as new changes
+     */
+    isOwnWrite(uri: vscode.Uri): boolean {
+        const until = this.ownWrites.get(uri.fsPath);
+        if (until === undefined) return false;
+        if (Date.now() > until) {
+            this.ownWrites.delete(uri.fsPath);
+            return false;
+        }
+        return true;
+    }
+
+    private markOwnWrite(uri: vscode.Uri): void {
+        this.ownWrites.set(uri.fsPath, Date.now() + OWN_WRITE_GRACE_MS);
+    }
+
     acceptFile(uri: vscode.Uri): void {
         this.removeSnapshot(uri);
     }
@@ -327,7 +765,7 @@ export class SnapshotManager {
      * Accept changes and update the baseline to current content
      * This way, future changes will be compared against the new accepted state
      */
-    async acceptAndUpdateBaseline(uri: vscode.Uri, updateCacheCallback?: (uri: vscode.Uri, content: string) => void): Promise<void> {
+    async acceptAndUpdateBaseline(uri: vscode.Uri, updateCacheCallback?: (uri: vscode.Uri, content: string | Buffer) => void): Promise<void> {
         const key = uri.fsPath;
         
         // Handle deleted files - just remove from tracking
@@ -342,7 +780,9 @@ export class SnapshotManager {
 
         try {
             // Read current content
-            const currentContent = await this.readFileContent(uri);
+            const currentContent = snapshot.isBinary
+                ? await this.readFileBytes(uri)
+                : await this.readFileContent(uri);
             
             if (currentContent !== null) {
                 // Update the file watcher cache so future changes use this as baseline
@@ -359,6 +799,102 @@ export class SnapshotManager {
         }
     }
 
+    /**
+     * Split the pending change of a file into hunks (modified files only)
+     */
+    async getHunks(uri: vscode.Uri): Promise<DiffHunk[]> {
+        const snapshot = this.snapshots.get(uri.fsPath);
+        if (!snapshot || snapshot.isNewFile || snapshot.isBinary) return [];
+
+        const currentContent = await this.readFileContent(uri);
+        if (currentContent === null) return [];
+
+        return computeHunks(snapshot.originalContent, currentContent);
+    }
+
+    /**
+     * Accept a single hunk - moves only that region into the snapshot's original content
+     */
+    async acceptHunk(uri: vscode.Uri, hunk: DiffHunk, updateCacheCallback?: (uri: vscode.Uri, content: string) => void): Promise<boolean> {
+        const key = uri.fsPath;
+        const snapshot = this.snapshots.get(key);
+        if (!snapshot || snapshot.isNewFile || snapshot.isBinary) return false;
+
+        try {
+            const currentContent = await this.readFileContent(uri);
+            if (currentContent === null) return false;
+
+            // The file may have changed since the hunk was rendered
+            const hunks = computeHunks(snapshot.originalContent, currentContent);
+            if (!hunks.some(h => hunksEqual(h, hunk))) return false;
+
+            const acceptedLines = splitLines(currentContent)
+                .slice(hunk.currentStart, hunk.currentStart + hunk.currentLength);
+            snapshot.originalContent = applyReplacement(
+                snapshot.originalContent,
+                replaceLines(snapshot.originalContent, hunk.originalStart, hunk.originalLength, acceptedLines)
+            );
+
+            // Last hunk accepted - nothing left to review
+            if (snapshot.originalContent === currentContent) {
+                if (updateCacheCallback) {
+                    updateCacheCallback(uri, currentContent);
+                }
+                this.snapshots.delete(key);
+            }
+
+            this._onSnapshotsChanged.fire();
+            return true;
+        } catch (error) {
+            console.error(`Failed to accept hunk: ${uri.fsPath}`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Revert a single hunk - rewrites only that region of the file
+     */
+    async revertHunk(uri: vscode.Uri, hunk: DiffHunk): Promise<boolean> {
+        const key = uri.fsPath;
+        const snapshot = this.snapshots.get(key);
+        if (!snapshot || snapshot.isNewFile || snapshot.isBinary) return false;
+
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const currentContent = document.getText();
+
+            const hunks = computeHunks(snapshot.originalContent, currentContent);
+            if (!hunks.some(h => hunksEqual(h, hunk))) return false;
+
+            const originalLines = splitLines(snapshot.originalContent)
+                .slice(hunk.originalStart, hunk.originalStart + hunk.originalLength);
+            const replacement = replaceLines(currentContent, hunk.currentStart, hunk.currentLength, originalLines);
+
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(
+                uri,
+                new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+                replacement.text
+            );
+            this.markOwnWrite(uri);
+            const success = await vscode.workspace.applyEdit(edit);
+
+            if (success) {
+                await document.save();
+                if (document.getText() === snapshot.originalContent) {
+                    this.removeSnapshot(uri);
+                } else {
+                    this._onSnapshotsChanged.fire();
+                }
+            }
+
+            return success;
+        } catch (error) {
+            console.error(`Failed to revert hunk: ${uri.fsPath}`, error);
+            return false;
+        }
+    }
+
     private async readFileContent(uri: vscode.Uri): Promise<string | null> {
         try {
             // First try to get from open document
@@ -381,37 +917,125 @@ export class SnapshotManager {
         }
     }
 
-    private getRelativePath(uri: vscode.Uri): string {
-        if (this.workspaceRoot) {
-            return path.relative(this.workspaceRoot, uri.fsPath);
+    private async readFileBytes(uri: vscode.Uri): Promise<Buffer | null> {
+        try {
+            return await fs.promises.readFile(uri.fsPath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
         }
-        return path.basename(uri.fsPath);
     }
 
-    private countChanges(original: string, current: string): { additions: number; deletions: number } {
-        const originalLines = original.split('\n');
-        const currentLines = current.split('\n');
-        
-        // Simple line-based diff counting
-        const originalSet = new Set(originalLines);
-        const currentSet = new Set(currentLines);
-        
-        let additions = 0;
-        let deletions = 0;
-        
-        for (const line of currentLines) {
-            if (!originalSet.has(line)) {
-                additions++;
+    /**
+     * Read what a snapshot of the file should hold - bytes for binary files, text otherwise
+     */
+    private async readSnapshotContent(uri: vscode.Uri): Promise<Pick<FileSnapshot, 'originalContent' | 'isBinary' | 'originalBytes'> | null> {
+        if (!isBinaryPath(uri.fsPath)) {
+            const openDoc = vscode.workspace.textDocuments.find(
+                doc => doc.uri.fsPath === uri.fsPath
+            );
+            if (openDoc) {
+                return { originalContent: openDoc.getText() };
             }
         }
-        
-        for (const line of originalLines) {
-            if (!currentSet.has(line)) {
-                deletions++;
-            }
+
+        const bytes = await this.readFileBytes(uri);
+        return bytes === null ? null : this.toSnapshotContent(uri, bytes);
+    }
+
+    private toSnapshotContent(uri: vscode.Uri, content: string | Buffer): Pick<FileSnapshot, 'originalContent' | 'isBinary' | 'originalBytes'> {
+        if (typeof content === 'string') {
+            return { originalContent: content };
         }
-        
-        return { additions, deletions };
+        if (isBinaryContent(uri.fsPath, content)) {
+            return { originalContent: '', isBinary: true, originalBytes: content };
+        }
+        return { originalContent: content.toString('utf-8') };
+    }
+
+    /**
+     * New files are only known to be binary once their content has been seen
+     */
+    private async detectBinary(snapshot: FileSnapshot): Promise<boolean> {
+        const bytes = await this.readFileBytes(snapshot.uri);
+        if (bytes !== null && isBinaryContent(snapshot.uri.fsPath, bytes)) {
+            snapshot.isBinary = true;
+        }
+        return snapshot.isBinary === true;
+    }
+
+    private async getBinaryChange(snapshot: FileSnapshot): Promise<FileChange | undefined> {
+        const currentBytes = await this.readFileBytes(snapshot.uri);
+        if (currentBytes === null) {
+            return snapshot.isNewFile ? undefined : this.buildBinaryChange(snapshot, null, 'deleted');
+        }
+        if (snapshot.isNewFile) {
+            return this.buildBinaryChange(snapshot, currentBytes, 'created');
+        }
+        if (snapshot.originalBytes && currentBytes.equals(snapshot.originalBytes)) {
+            return undefined;
+        }
+        return this.buildBinaryChange(snapshot, currentBytes, 'modified');
+    }
+
+    private buildBinaryChange(snapshot: FileSnapshot, currentBytes: Buffer | null, changeType: FileChange['changeType']): FileChange {
+        const originalBytes = changeType === 'created' ? Buffer.alloc(0) : (snapshot.originalBytes ?? Buffer.alloc(0));
+        const current = currentBytes ?? Buffer.alloc(0);
+
+        return {
+            uri: snapshot.uri,
+            relativePath: snapshot.relativePath,
+            originalContent: '',
+            currentContent: '',
+            snapshotTime: snapshot.snapshotTime,
+            workspaceFolder: vscode.workspace.getWorkspaceFolder(snapshot.uri)?.name,
+            changeType,
+            additions: 0,
+            deletions: 0,
+            hunks: [],
+            binary: {
+                originalBytes,
+                originalSize: originalBytes.length,
+                currentSize: current.length,
+                originalHash: hashContent(originalBytes),
+                currentHash: hashContent(current),
+                isImage: isImagePath(snapshot.uri.fsPath)
+            },
+            contentHash: currentBytes ? hashContent(current) : '',
+            origins: snapshot.origins ?? []
+        };
+    }
+
+    private getRelativePath(uri: vscode.Uri): string {
+        // Relative to the file's own folder, so multi-root workspaces don't get ../other-repo paths
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (folder) {
+            return path.relative(folder.uri.fsPath, uri.fsPath);
+        }
+        return path.basename(uri.fsPath);
+    }
+
+    private buildChange(snapshot: FileSnapshot, currentContent: string, changeType: FileChange['changeType']): FileChange {
+        const originalContent = changeType === 'created' ? '' : snapshot.originalContent;
+        const hunks = computeHunks(originalContent, currentContent);
+        const { additions, deletions } = countHunkLines(hunks);
+
+        return {
+            uri: snapshot.uri,
+            relativePath: snapshot.relativePath,
+            originalContent,
+            currentContent,
+            snapshotTime: snapshot.snapshotTime,
+            workspaceFolder: vscode.workspace.getWorkspaceFolder(snapshot.uri)?.name,
+            changeType,
+            additions,
+            deletions,
+            hunks,
+            contentHash: changeType === 'deleted' ? '' : hashContent(currentContent),
+            origins: snapshot.origins ?? []
+        };
     }
 
     getSnapshotCount(): number {
@@ -421,4 +1045,8 @@ export class SnapshotManager {
     getAllSnapshots(): FileSnapshot[] {
         return Array.from(this.snapshots.values());
     }
+
+    getDeletedSnapshots(): FileSnapshot[] {
+        return Array.from(this.deletedFiles.values());
+    }
 }
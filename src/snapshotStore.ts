@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChangeOrigin } from './snapshotManager';
+import { JsonFile } from './jsonFile';
+
+const STORE_VERSION = 1;
+const STORE_FILE = 'snapshots.json';
+
+/**
+ * A snapshot as written to disk. `currentHash` is the hash of the file
+ * content when the store was last written, so a restore can tell whether
+ * the file was touched while the extension wasn't watching.
+ */
+export interface StoredSnapshot {
+    fsPath: string;
+    originalContent: string;
+    snapshotTime: string;
+    relativePath: string;
+    isNewFile: boolean;
+    isBinary?: boolean;
+    originalBase64?: string;  // binary baselines only
+    origins?: ChangeOrigin[];
+    currentHash: string | null;
+}
+
+export interface StoredState {
+    version: number;
+    snapshots: StoredSnapshot[];
+    deletedFiles: StoredSnapshot[];
+}
+
+/**
+ * Persists pending snapshots in the extension's workspace storage folder
+ */
+export class SnapshotStore {
+    private readonly file: JsonFile<StoredState>;
+
+    constructor(storageUri: vscode.Uri) {
+        this.file = new JsonFile(path.join(storageUri.fsPath, STORE_FILE), 'persisted snapshots');
+    }
+
+    async load(): Promise<StoredState | undefined> {
+        const state = await this.file.read();
+        if (state && state.version !== STORE_VERSION) {
+            console.warn(`Ignoring snapshot store with unsupported version ${state.version}`);
+            return undefined;
+        }
+        return state;
+    }
+
+    save(snapshots: StoredSnapshot[], deletedFiles: StoredSnapshot[]): Promise<void> {
+        return this.file.write({ version: STORE_VERSION, snapshots, deletedFiles });
+    }
+}
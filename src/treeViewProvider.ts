@@ -1,18 +1,69 @@
 import * as vscode from 'vscode';
-import { SnapshotManager, FileChange } from './snapshotManager';
+import { SnapshotManager, FileChange, ChangeOrigin } from './snapshotManager';
+import { CheckpointManager, Checkpoint } from './checkpointManager';
+import { VersionHistory, FileVersion, getVersionLabel } from './versionHistory';
 import * as path from 'path';
+import { DiffHunk } from './lineDiff';
+import { formatSize } from './binaryFiles';
+import { ReviewNotes, ReviewNote } from './reviewNotes';
+import { ViewedFiles } from './viewedFiles';
+import { DiscardTrash, DiscardedFile } from './discardTrash';
+import { ShelfManager, Shelf } from './shelfManager';
+import { buildFolderTree, FolderNode } from './folderTree';
+import { ChangeFilter, ChangeKind, createFilter, isFilterActive, matchesFilter } from './changeFilter';
+
+// The Recently Discarded section lists this many; the rest are in the quick pick
+const MAX_LISTED_DISCARDED = 10;
+
+const ORIGIN_ICONS: Record<ChangeOrigin, { icon: string; label: string }> = {
+    edit: { icon: '✎', label: 'Typed in the editor' },
+    external: { icon: '⬇', label: 'Written to disk outside the editor' },
+    fileOperation: { icon: '⎘', label: 'Created, deleted or moved through VS Code' },
+    refactor: { icon: '⚙', label: 'Changed by a refactoring or workspace edit' }
+};
 
 export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'pendingChangesView';
     private _view?: vscode.WebviewView;
     private snapshotManager: SnapshotManager;
+    private filter: ChangeFilter = createFilter();
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        snapshotManager: SnapshotManager
+        snapshotManager: SnapshotManager,
+        private readonly checkpointManager: CheckpointManager,
+        private readonly versionHistory: VersionHistory,
+        private readonly reviewNotes: ReviewNotes,
+        private readonly viewedFiles: ViewedFiles,
+        private readonly discardTrash: DiscardTrash,
+        private readonly shelfManager: ShelfManager
     ) {
         this.snapshotManager = snapshotManager;
 
+        viewedFiles.onDidChange(() => {
+            this.refresh();
+        });
+
+        shelfManager.onShelvesChanged(() => {
+            this.refresh();
+        });
+
+        discardTrash.onDidChange(() => {
+            this.refresh();
+        });
+
+        reviewNotes.onDidChange(() => {
+            this.refresh();
+        });
+
+        versionHistory.onVersionsChanged(() => {
+            this.refresh();
+        });
+
+        checkpointManager.onCheckpointsChanged(() => {
+            this.refresh();
+        });
+
         snapshotManager.onSnapshotsChanged(() => {
             this.refresh();
         });
@@ -24,6 +75,12 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
         vscode.workspace.onDidSaveTextDocument(() => {
             this.refresh();
         });
+
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('pendingChanges.layout')) {
+                this.refresh();
+            }
+        });
     }
 
     public resolveWebviewView(
@@ -48,15 +105,100 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
                 case 'discard':
                     await vscode.commands.executeCommand('pendingChanges.discardFile', { change: data.change });
                     break;
+                case 'keepAndCommit':
+                    await vscode.commands.executeCommand('pendingChanges.keepAndCommit');
+                    break;
+                case 'exportPatch':
+                    await vscode.commands.executeCommand('pendingChanges.exportPatch');
+                    break;
+                case 'acceptDirectory':
+                    await vscode.commands.executeCommand('pendingChanges.acceptDirectory', { path: data.path });
+                    break;
+                case 'discardDirectory':
+                    await vscode.commands.executeCommand('pendingChanges.discardDirectory', { path: data.path });
+                    break;
+                case 'toggleLayout':
+                    await vscode.commands.executeCommand('pendingChanges.toggleLayout');
+                    break;
+                case 'acceptSelected':
+                    await vscode.commands.executeCommand('pendingChanges.acceptSelected', { uris: data.uris });
+                    break;
+                case 'discardSelected':
+                    await vscode.commands.executeCommand('pendingChanges.discardSelected', { uris: data.uris });
+                    break;
+                case 'toggleViewed':
+                    await vscode.commands.executeCommand('pendingChanges.toggleViewed', { uri: data.change.uri, viewed: data.viewed });
+                    break;
+                case 'addNote':
+                    await vscode.commands.executeCommand('pendingChanges.addNote', { uri: data.change.uri });
+                    break;
+                case 'openNote':
+                    await vscode.commands.executeCommand('pendingChanges.openNote', { id: data.id });
+                    break;
+                case 'deleteNote':
+                    await vscode.commands.executeCommand('pendingChanges.deleteNote', { id: data.id });
+                    break;
+                case 'exportReview':
+                    await vscode.commands.executeCommand('pendingChanges.exportReview');
+                    break;
+                case 'shelve':
+                    await vscode.commands.executeCommand('pendingChanges.shelve');
+                    break;
+                case 'unshelve':
+                    await vscode.commands.executeCommand('pendingChanges.unshelve', { id: data.id });
+                    break;
+                case 'deleteShelf':
+                    await vscode.commands.executeCommand('pendingChanges.deleteShelf', { id: data.id });
+                    break;
+                case 'restoreDiscarded':
+                    await vscode.commands.executeCommand('pendingChanges.restoreDiscarded', { id: data.id });
+                    break;
+                case 'redoUndo':
+                    await vscode.commands.executeCommand('pendingChanges.redoUndo');
+                    break;
+                case 'clearDiscarded':
+                    await vscode.commands.executeCommand('pendingChanges.clearDiscarded');
+                    break;
+                case 'ignore':
+                    await vscode.commands.executeCommand('pendingChanges.ignorePath', { uri: data.change.uri });
+                    break;
+                case 'acceptHunk':
+                    await vscode.commands.executeCommand('pendingChanges.acceptHunk', { uri: data.change.uri, hunk: data.hunk });
+                    break;
+                case 'discardHunk':
+                    await vscode.commands.executeCommand('pendingChanges.discardHunk', { uri: data.change.uri, hunk: data.hunk });
+                    break;
                 case 'acceptAll':
-                    await vscode.commands.executeCommand('pendingChanges.acceptAll');
+                    await vscode.commands.executeCommand('pendingChanges.acceptAll', data.folder, data.filtered && { uris: data.filtered });
                     break;
                 case 'discardAll':
-                    await vscode.commands.executeCommand('pendingChanges.discardAll');
+                    await vscode.commands.executeCommand('pendingChanges.discardAll', data.folder, data.filtered && { uris: data.filtered });
+                    break;
+                case 'setFilter':
+                    this.filter = { ...createFilter(), ...data.filter };
+                    this.refresh();
                     break;
                 case 'showDiff':
                     await vscode.commands.executeCommand('pendingChanges.showDiff', { change: data.change });
                     break;
+                case 'createCheckpoint':
+                    await vscode.commands.executeCommand('pendingChanges.createCheckpoint');
+                    break;
+                case 'rollbackCheckpoint':
+                    await vscode.commands.executeCommand('pendingChanges.rollbackToCheckpoint', data.id);
+                    break;
+                case 'diffCheckpoint':
+                    await vscode.commands.executeCommand('pendingChanges.diffCheckpoint', data.id);
+                    break;
+                case 'deleteCheckpoint':
+                    await vscode.commands.executeCommand('pendingChanges.deleteCheckpoint', data.id);
+                    break;
+                case 'compareVersions':
+                    await vscode.commands.executeCommand('pendingChanges.compareVersions', { uri: data.change.uri, from: data.from, to: data.to });
+                    break;
+                case 'restoreVersion':
+                    await vscode.commands.executeCommand('pendingChanges.restoreVersion', { uri: data.change.uri, version: data.version });
+                    break;
                 case 'refresh':
                     this.refresh();
                     break;
@@ -74,56 +216,119 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
         if (!this._view) return;
         
         const changes = await this.snapshotManager.getChangedFiles();
-        this._view.webview.html = this.getHtml(changes);
+        this.viewedFiles.prune(changes);
+        this._view.webview.html = this.getHtml(changes, this.checkpointManager.getCheckpoints());
     }
 
-    private getHtml(changes: FileChange[]): string {
+    private getHtml(allChanges: FileChange[], checkpoints: Checkpoint[]): string {
+        const filterActive = isFilterActive(this.filter);
+        const changes = allChanges.filter(c => matchesFilter(c, this.filter));
         const totalAdditions = changes.reduce((sum, c) => sum + c.additions, 0);
         const totalDeletions = changes.reduce((sum, c) => sum + c.deletions, 0);
+        const viewedCount = changes.filter(c => this.viewedFiles.isViewed(c)).length;
 
-        const fileItems = changes.map((change, index) => {
+        // The tree layout nests rows under their folders; the list shows each row's folder instead
+        const layout = vscode.workspace.getConfiguration('pendingChanges').get<string>('layout', 'list');
+
+        const renderFile = (change: FileChange, index: number, depth?: number): string => {
             const fileName = path.basename(change.relativePath);
             const dirPath = path.dirname(change.relativePath);
-            const dirDisplay = dirPath !== '.' ? dirPath : '';
+            // Moves show where the file came from instead of its folder
+            const dirDisplay = change.previousRelativePath
+                ? `← ${change.previousRelativePath}`
+                : (dirPath !== '.' && depth === undefined ? dirPath : '');
             
             let iconClass = 'modified';
             if (change.changeType === 'created') iconClass = 'added';
             if (change.changeType === 'deleted') iconClass = 'deleted';
+            if (change.changeType === 'renamed') iconClass = 'renamed';
+
+            const noteCount = this.reviewNotes.getNoteCount(change.uri);
+            const viewed = this.viewedFiles.isViewed(change);
+
+            // The timeline is only worth showing once there are intermediate versions
+            const allVersions = this.versionHistory.getVersions(change.uri);
+            const versions = allVersions.length > 2 ? allVersions : [];
+
+            // Hunks are only offered when a modified file has more than one of them; viewed rows stay collapsed
+            const hunks = !viewed && change.changeType === 'modified' && change.hunks.length > 1 ? change.hunks : [];
+            const hunkItems = hunks.map((hunk, hunkIndex) => `
+                <div class="hunk-row" onclick="showDiff(${index})">
+                    <span class="hunk-label">${this.escapeHtml(this.getHunkLabel(hunk))}</span>
+                    <div class="file-stats">
+                        <span class="stat-add">+${hunk.currentLength}</span>
+                        <span class="stat-del">-${hunk.originalLength}</span>
+                    </div>
+                    <div class="file-actions">
+                        <button class="btn-icon" onclick="event.stopPropagation(); acceptHunk(${index}, ${hunkIndex})" title="Keep this change">✓</button>
+                        <button class="btn-icon" onclick="event.stopPropagation(); discardHunk(${index}, ${hunkIndex})" title="Undo this change">↺</button>
+                    </div>
+                </div>
+            `).join('');
 
             return `
-                <div class="file-row" data-index="${index}">
+                <div class="file-row${viewed ? ' viewed' : ''}" data-index="${index}" data-uri="${this.escapeHtml(change.uri.fsPath)}" role="treeitem" aria-selected="false" aria-label="${this.escapeHtml(this.getRowLabel(change, viewed, noteCount))}" tabindex="-1"${depth !== undefined ? ` style="padding-left: ${8 + depth * 12}px"` : ''}>
+                    <span class="hunk-toggle" id="hunkToggle${index}" onclick="toggleHunks(${index})">${hunks.length > 0 ? '▸' : ''}</span>
                     <div class="file-icon ${iconClass}"></div>
-                    <div class="file-info" onclick="showDiff(${index})">
+                    <div class="file-info" onclick="rowClick(event, ${index})">
                         <span class="file-name">${this.escapeHtml(fileName)}</span>
                         <span class="file-path">${this.escapeHtml(dirDisplay)}</span>
+                        ${change.origins.length > 0 ? `<span class="origin-icons">${change.origins.map(origin => `<span title="${ORIGIN_ICONS[origin].label}">${ORIGIN_ICONS[origin].icon}</span>`).join('')}</span>` : ''}
+                        ${noteCount > 0 ? `<span class="note-badge" title="${noteCount} review note${noteCount === 1 ? '' : 's'}">💬 ${noteCount}</span>` : ''}
+                        ${change.binary ? `<span class="binary-hash">${change.binary.originalHash.slice(0, 7)} → ${change.binary.currentHash.slice(0, 7)}</span>` : ''}
                     </div>
                     <div class="file-stats">
+                        ${change.binary ? `
+                        <span class="stat-size">${formatSize(change.binary.originalSize)} → ${formatSize(change.binary.currentSize)}</span>
+                        ` : `
                         <span class="stat-add">+${change.additions}</span>
                         <span class="stat-del">-${change.deletions}</span>
+                        `}
                     </div>
+                    <input type="checkbox" class="viewed-toggle" title="Viewed" ${viewed ? 'checked' : ''} onclick="event.stopPropagation()" onchange="toggleViewed(${index}, this.checked)">
                     <div class="file-actions">
+                        ${versions.length > 0 ? `<button class="btn-icon" onclick="toggleVersions(${index})" title="${versions.length} versions">🕘</button>` : ''}
+                        <button class="btn-icon" onclick="addNote(${index})" title="Add a review note">💬</button>
+                        <button class="btn-icon" onclick="ignoreFile(${index})" title="Ignore this file or folder">⊘</button>
                         <button class="btn-icon" onclick="acceptFile(${index})" title="Keep">✓</button>
                         <button class="btn-icon" onclick="discardFile(${index})" title="Undo">↺</button>
                     </div>
                 </div>
+                ${hunks.length > 0 ? `<div class="hunk-list collapsed" id="hunkList${index}">${hunkItems}</div>` : ''}
+                ${versions.length > 0 ? `<div class="version-list collapsed" id="versionList${index}">${this.renderVersions(versions, index)}</div>` : ''}
             `;
-        }).join('');
+        };
 
-        const headerContent = changes.length > 0 ? `
+        const fileItems = this.renderGroups(changes, indices => layout === 'tree'
+            ? this.renderFolder(buildFolderTree(changes, indices), changes, renderFile, 0)
+            : indices.map(index => renderFile(changes[index], index)).join(''));
+
+        const headerContent = allChanges.length > 0 ? `
+            ${this.renderFilter()}
             <div class="header" onclick="toggleCollapse()">
                 <span class="collapse-icon" id="collapseIcon">▼</span>
-                <span class="header-text">${changes.length} files changed</span>
+                <span class="header-text">${filterActive ? `${changes.length} of ${allChanges.length} files` : `${changes.length} files changed`}</span>
+                <span class="viewed-progress">${viewedCount} of ${changes.length} viewed</span>
                 <span class="header-stats">
                     <span class="stat-add">+${totalAdditions}</span>
                     <span class="stat-del">-${totalDeletions}</span>
                 </span>
                 <div class="header-actions">
+                    <button class="btn-icon" onclick="event.stopPropagation(); toggleLayout()" title="${layout === 'tree' ? 'View as List' : 'View as Tree'}">${layout === 'tree' ? '☰' : '🗀'}</button>
+                    <button class="btn-icon" onclick="event.stopPropagation(); exportPatch()" title="Export as Patch">⤓</button>
                     <button class="btn keep-btn" onclick="event.stopPropagation(); acceptAll()"><span class="btn-icon-inline">✓</span> Keep</button>
                     <button class="btn undo-btn" onclick="event.stopPropagation(); discardAll()"><span class="btn-icon-inline">↺</span> Undo</button>
+                    <button class="btn commit-btn" onclick="event.stopPropagation(); keepAndCommit()" title="Keep All & Commit"><span class="btn-icon-inline">⎇</span> Commit</button>
                 </div>
             </div>
-            <div class="file-list" id="fileList">
-                ${fileItems}
+            <div class="selection-bar hidden" id="selectionBar">
+                <span class="selection-count" id="selectionCount" role="status"></span>
+                <button class="btn keep-btn" onclick="acceptSelected()">Keep</button>
+                <button class="btn undo-btn" onclick="discardSelected()">Undo</button>
+                <button class="btn-icon" onclick="clearSelection()" title="Clear selection" aria-label="Clear selection">✕</button>
+            </div>
+            <div class="file-list" id="fileList" role="tree" aria-multiselectable="true" aria-label="Changed files">
+                ${fileItems || '<div class="empty-state">No changes match the filter</div>'}
             </div>
         ` : `
             <div class="empty-state">No pending changes</div>
@@ -203,6 +408,13 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
         .undo-btn:hover {
             background: var(--vscode-button-secondaryHoverBackground);
         }
+        .commit-btn {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        .commit-btn:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
         .file-list {
             overflow: hidden;
         }
@@ -212,15 +424,166 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
         .file-row {
             display: flex;
             align-items: center;
-            padding: 4px 8px 4px 24px;
+            padding: 4px 8px 4px 8px;
             cursor: pointer;
         }
+        .file-row:focus,
+        .tree-folder:focus {
+            outline: 1px solid var(--vscode-list-focusOutline);
+            outline-offset: -1px;
+        }
+        .file-row.selected {
+            background: var(--vscode-list-inactiveSelectionBackground);
+        }
+        .file-list:focus-within .file-row.selected {
+            background: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        .file-row:focus .file-actions,
+        .tree-folder:focus .file-actions {
+            opacity: 1;
+        }
+        .filter-bar {
+            display: flex;
+            align-items: center;
+            gap: 2px;
+            padding: 4px 8px;
+        }
+        .filter-input {
+            flex: 1;
+            min-width: 0;
+            padding: 2px 6px;
+            margin-right: 2px;
+            font-family: inherit;
+            font-size: inherit;
+            color: var(--vscode-input-foreground);
+            background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 2px;
+        }
+        .filter-input:focus {
+            outline: 1px solid var(--vscode-focusBorder);
+            outline-offset: -1px;
+        }
+        .filter-toggle {
+            border: 1px solid transparent;
+            font-size: 11px;
+            font-weight: 600;
+            opacity: 0.5;
+        }
+        .filter-toggle.active {
+            opacity: 1;
+            color: var(--vscode-inputOption-activeForeground);
+            background: var(--vscode-inputOption-activeBackground);
+            border-color: var(--vscode-inputOption-activeBorder, transparent);
+        }
+        .selection-bar {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            padding: 4px 8px;
+            font-size: 0.9em;
+            background: var(--vscode-sideBarSectionHeader-background, transparent);
+        }
+        .selection-bar.hidden {
+            display: none;
+        }
+        .selection-count {
+            flex: 1;
+        }
+        .file-row.viewed {
+            opacity: 0.55;
+        }
+        .viewed-progress {
+            margin-right: 8px;
+            font-size: 0.9em;
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
+        .viewed-toggle {
+            flex-shrink: 0;
+            margin-left: 8px;
+            cursor: pointer;
+            accent-color: var(--vscode-focusBorder);
+        }
         .file-row:hover {
             background: var(--vscode-list-hoverBackground);
         }
-        .file-row:hover .file-actions {
+        .file-row:hover .file-actions,
+        .hunk-row:hover .file-actions {
+            opacity: 1;
+        }
+        .folder-header {
+            display: flex;
+            align-items: center;
+            padding: 4px 8px;
+            font-weight: 500;
+            text-transform: uppercase;
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+        }
+        .folder-header:hover .file-actions {
+            opacity: 1;
+        }
+        .folder-name {
+            flex: 1;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .tree-folder {
+            display: flex;
+            align-items: center;
+            padding: 4px 8px;
+            cursor: pointer;
+        }
+        .tree-folder:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .tree-folder:hover .file-actions {
             opacity: 1;
         }
+        .folder-toggle {
+            width: 16px;
+            flex-shrink: 0;
+            font-size: 10px;
+            color: var(--vscode-foreground);
+        }
+        .tree-folder-name {
+            flex: 1;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .folder-children.collapsed {
+            display: none;
+        }
+        .hunk-toggle {
+            width: 16px;
+            flex-shrink: 0;
+            font-size: 10px;
+            color: var(--vscode-foreground);
+        }
+        .hunk-list.collapsed {
+            display: none;
+        }
+        .hunk-row {
+            display: flex;
+            align-items: center;
+            padding: 2px 8px 2px 46px;
+            cursor: pointer;
+        }
+        .hunk-row:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .hunk-label {
+            flex: 1;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
         .file-icon {
             width: 16px;
             height: 16px;
@@ -237,6 +600,9 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
         .file-icon.deleted {
             background: var(--vscode-gitDecoration-deletedResourceForeground, #C74E39);
         }
+        .file-icon.renamed {
+            background: var(--vscode-gitDecoration-renamedResourceForeground, #73C991);
+        }
         .file-info {
             flex: 1;
             display: flex;
@@ -268,6 +634,16 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
         .stat-add {
             color: var(--vscode-gitDecoration-addedResourceForeground, #81B88B);
         }
+        .stat-size {
+            color: var(--vscode-descriptionForeground);
+        }
+        .binary-hash {
+            margin-left: 6px;
+            font-family: var(--vscode-editor-font-family), monospace;
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
         .stat-del {
             color: var(--vscode-gitDecoration-deletedResourceForeground, #C74E39);
         }
@@ -294,6 +670,170 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
         .btn-icon:hover {
             background: var(--vscode-toolbar-hoverBackground);
         }
+        .version-list.collapsed {
+            display: none;
+        }
+        .version-row {
+            display: flex;
+            align-items: center;
+            padding: 2px 8px 2px 46px;
+            cursor: pointer;
+        }
+        .version-row:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .version-row:hover .file-actions {
+            opacity: 1;
+        }
+        .version-label {
+            flex: 1;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .section-header {
+            display: flex;
+            align-items: center;
+            padding: 6px 8px 2px 8px;
+            margin-top: 6px;
+            border-top: 1px solid var(--vscode-panel-border, transparent);
+        }
+        .section-title {
+            flex: 1;
+            font-size: 0.85em;
+            font-weight: 500;
+            text-transform: uppercase;
+            color: var(--vscode-descriptionForeground);
+        }
+        .checkpoint-row {
+            display: flex;
+            align-items: center;
+            padding: 2px 8px 2px 24px;
+        }
+        .checkpoint-row:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .checkpoint-row:hover .file-actions {
+            opacity: 1;
+        }
+        .checkpoint-name {
+            flex: 1;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .checkpoint-time {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+            margin-left: 6px;
+        }
+        .origin-icons {
+            display: flex;
+            gap: 2px;
+            margin-left: 6px;
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+        }
+        .note-badge {
+            margin-left: 6px;
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
+        .count-badge {
+            margin-right: 4px;
+            padding: 0 6px;
+            border-radius: 10px;
+            font-size: 0.85em;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .note-row {
+            display: flex;
+            align-items: center;
+            padding: 2px 8px 2px 24px;
+            cursor: pointer;
+        }
+        .note-row:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .note-row:hover .file-actions {
+            opacity: 1;
+        }
+        .note-location {
+            flex-shrink: 0;
+            max-width: 50%;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .note-body {
+            flex: 1;
+            margin-left: 6px;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .shelf-row {
+            display: flex;
+            align-items: center;
+            padding: 2px 8px 2px 24px;
+        }
+        .shelf-row:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .shelf-row:hover .file-actions {
+            opacity: 1;
+        }
+        .shelf-name {
+            flex: 1;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .shelf-info {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+            margin-left: 6px;
+            white-space: nowrap;
+        }
+        .shelf-conflicts {
+            color: var(--vscode-editorWarning-foreground);
+            font-size: 0.9em;
+            margin-left: 6px;
+            white-space: nowrap;
+        }
+        .discarded-row {
+            display: flex;
+            align-items: center;
+            padding: 2px 8px 2px 24px;
+        }
+        .discarded-row:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .discarded-row:hover .file-actions {
+            opacity: 1;
+        }
+        .discarded-name {
+            flex: 1;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .discarded-type,
+        .discarded-more {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+            margin-left: 6px;
+        }
+        .discarded-more {
+            padding: 2px 8px 2px 24px;
+            cursor: pointer;
+        }
         .empty-state {
             padding: 20px;
             text-align: center;
@@ -304,13 +844,46 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
 </head>
 <body>
     ${headerContent}
+    ${this.renderCheckpoints(checkpoints, allChanges.length > 0)}
+    ${this.renderNotes(this.reviewNotes.getNotes())}
+    ${this.renderShelves(this.shelfManager.getShelves(), allChanges.length > 0)}
+    ${this.renderDiscarded(this.discardTrash.getEntries())}
     <script>
         const vscode = acquireVsCodeApi();
         const changes = ${JSON.stringify(changes.map(c => ({
             uri: c.uri.fsPath,
             relativePath: c.relativePath,
-            changeType: c.changeType
+            changeType: c.changeType,
+            hunks: c.hunks
         })))};
+        const state = Object.assign({ expanded: [], expandedVersions: [], collapsedFolders: [] }, vscode.getState());
+        const filter = ${JSON.stringify(this.filter)};
+        // Keep All / Undo All offer to act on just these when the filter hides some files
+        const filtered = ${filterActive} ? changes.map(c => c.uri) : undefined;
+
+        function toggleHunks(index) {
+            const list = document.getElementById('hunkList' + index);
+            const toggle = document.getElementById('hunkToggle' + index);
+            if (!list || !toggle) return;
+            const collapsed = list.classList.toggle('collapsed');
+            toggle.textContent = collapsed ? '▸' : '▾';
+            const uri = changes[index].uri;
+            state.expanded = state.expanded.filter(u => u !== uri);
+            if (!collapsed) state.expanded.push(uri);
+            vscode.setState(state);
+        }
+
+        // Re-open hunk and version lists that were expanded before the last refresh
+        changes.forEach((change, index) => {
+            if (state.expanded.includes(change.uri)) {
+                const list = document.getElementById('hunkList' + index);
+                if (list && list.classList.contains('collapsed')) toggleHunks(index);
+            }
+            if (state.expandedVersions.includes(change.uri)) {
+                const list = document.getElementById('versionList' + index);
+                if (list) list.classList.remove('collapsed');
+            }
+        });
 
         function toggleCollapse() {
             const icon = document.getElementById('collapseIcon');
@@ -326,25 +899,698 @@ export class PendingChangesWebviewProvider implements vscode.WebviewViewProvider
         }
 
         function acceptFile(index) {
+            rememberFocus([changes[index]]);
             vscode.postMessage({ type: 'accept', change: changes[index] });
         }
 
         function discardFile(index) {
+            rememberFocus([changes[index]]);
             vscode.postMessage({ type: 'discard', change: changes[index] });
         }
 
+        function toggleFolder(key) {
+            const row = document.querySelector('.tree-folder[data-key="' + CSS.escape(key) + '"]');
+            const children = document.querySelector('.folder-children[data-key="' + CSS.escape(key) + '"]');
+            if (!row || !children) return;
+            const collapsed = children.classList.toggle('collapsed');
+            row.querySelector('.folder-toggle').textContent = collapsed ? '▸' : '▾';
+            row.setAttribute('aria-expanded', String(!collapsed));
+            state.collapsedFolders = state.collapsedFolders.filter(k => k !== key);
+            if (collapsed) state.collapsedFolders.push(key);
+            vscode.setState(state);
+        }
+
+        // Folders stay collapsed across refreshes
+        document.querySelectorAll('.tree-folder').forEach(row => {
+            if (!state.collapsedFolders.includes(row.dataset.key)) return;
+            const children = row.nextElementSibling;
+            if (children) children.classList.add('collapsed');
+            row.querySelector('.folder-toggle').textContent = '▸';
+            row.setAttribute('aria-expanded', 'false');
+        });
+
+        function acceptDirectory(path) {
+            vscode.postMessage({ type: 'acceptDirectory', path });
+        }
+
+        function discardDirectory(path) {
+            vscode.postMessage({ type: 'discardDirectory', path });
+        }
+
+        function toggleLayout() {
+            vscode.postMessage({ type: 'toggleLayout' });
+        }
+
+        function toggleViewed(index, viewed) {
+            vscode.postMessage({ type: 'toggleViewed', change: changes[index], viewed });
+        }
+
+        function addNote(index) {
+            vscode.postMessage({ type: 'addNote', change: changes[index] });
+        }
+
+        function openNote(id) {
+            vscode.postMessage({ type: 'openNote', id });
+        }
+
+        function deleteNote(id) {
+            vscode.postMessage({ type: 'deleteNote', id });
+        }
+
+        function exportReview() {
+            vscode.postMessage({ type: 'exportReview' });
+        }
+
+        function shelve() {
+            vscode.postMessage({ type: 'shelve' });
+        }
+
+        function unshelve(id) {
+            vscode.postMessage({ type: 'unshelve', id });
+        }
+
+        function deleteShelf(id) {
+            vscode.postMessage({ type: 'deleteShelf', id });
+        }
+
+        function restoreDiscarded(id) {
+            vscode.postMessage({ type: 'restoreDiscarded', id });
+        }
+
+        function redoUndo() {
+            vscode.postMessage({ type: 'redoUndo' });
+        }
+
+        function clearDiscarded() {
+            vscode.postMessage({ type: 'clearDiscarded' });
+        }
+
+        function ignoreFile(index) {
+            vscode.postMessage({ type: 'ignore', change: changes[index] });
+        }
+
+        function acceptHunk(index, hunkIndex) {
+            vscode.postMessage({ type: 'acceptHunk', change: changes[index], hunk: changes[index].hunks[hunkIndex] });
+        }
+
+        function discardHunk(index, hunkIndex) {
+            vscode.postMessage({ type: 'discardHunk', change: changes[index], hunk: changes[index].hunks[hunkIndex] });
+        }
+
+        function keepAndCommit() {
+            vscode.postMessage({ type: 'keepAndCommit' });
+        }
+
+        function exportPatch() {
+            vscode.postMessage({ type: 'exportPatch' });
+        }
+
         function acceptAll() {
-            vscode.postMessage({ type: 'acceptAll' });
+            vscode.postMessage({ type: 'acceptAll', filtered });
         }
 
         function discardAll() {
-            vscode.postMessage({ type: 'discardAll' });
+            vscode.postMessage({ type: 'discardAll', filtered });
+        }
+
+        // Every filter change rebuilds the list, so typing is batched and the caret put back afterwards
+        const filterInput = document.getElementById('filterInput');
+        let filterTimer;
+
+        function applyFilter() {
+            clearTimeout(filterTimer);
+            state.filterCaret = document.activeElement === filterInput ? filterInput.selectionStart : undefined;
+            vscode.setState(state);
+            vscode.postMessage({ type: 'setFilter', filter });
+        }
+
+        function toggleKind(kind) {
+            filter.kinds = filter.kinds.includes(kind) ? filter.kinds.filter(k => k !== kind) : [...filter.kinds, kind];
+            applyFilter();
+        }
+
+        function toggleContentSearch() {
+            filter.searchContent = !filter.searchContent;
+            applyFilter();
+        }
+
+        if (filterInput) {
+            filterInput.addEventListener('input', () => {
+                filter.text = filterInput.value;
+                clearTimeout(filterTimer);
+                filterTimer = setTimeout(applyFilter, 250);
+            });
+            filterInput.addEventListener('keydown', event => {
+                if (event.key === 'Escape' && filterInput.value) {
+                    filterInput.value = filter.text = '';
+                    applyFilter();
+                } else if (event.key === 'ArrowDown' && getRows().length > 0) {
+                    focusRow(getRows()[0]);
+                } else {
+                    return;
+                }
+                event.preventDefault();
+            });
+            if (state.filterCaret !== undefined) {
+                filterInput.focus();
+                filterInput.setSelectionRange(state.filterCaret, state.filterCaret);
+                state.filterCaret = undefined;
+                vscode.setState(state);
+            }
+        }
+
+        function toggleVersions(index) {
+            const list = document.getElementById('versionList' + index);
+            if (!list) return;
+            const collapsed = list.classList.toggle('collapsed');
+            const uri = changes[index].uri;
+            state.expandedVersions = state.expandedVersions.filter(u => u !== uri);
+            if (!collapsed) state.expandedVersions.push(uri);
+            vscode.setState(state);
+        }
+
+        function compareVersions(index, from, to) {
+            vscode.postMessage({ type: 'compareVersions', change: changes[index], from: from >= 0 ? from : undefined, to });
+        }
+
+        function restoreVersion(index, version) {
+            vscode.postMessage({ type: 'restoreVersion', change: changes[index], version });
+        }
+
+        function createCheckpoint() {
+            vscode.postMessage({ type: 'createCheckpoint' });
+        }
+
+        function diffCheckpoint(id) {
+            vscode.postMessage({ type: 'diffCheckpoint', id });
+        }
+
+        function rollbackCheckpoint(id) {
+            vscode.postMessage({ type: 'rollbackCheckpoint', id });
+        }
+
+        function deleteCheckpoint(id) {
+            vscode.postMessage({ type: 'deleteCheckpoint', id });
+        }
+
+        function acceptFolder(folder) {
+            vscode.postMessage({ type: 'acceptAll', folder, filtered });
+        }
+
+        function discardFolder(folder) {
+            vscode.postMessage({ type: 'discardAll', folder, filtered });
+        }
+        // Selection and keyboard navigation over file and folder rows, in document order
+        const fileList = document.getElementById('fileList');
+        const selected = new Set((state.selected || []).filter(uri => changes.some(c => c.uri === uri)));
+        let anchorIndex = -1;
+
+        function getRows() {
+            // Rows inside collapsed folders or a collapsed list are skipped
+            return Array.from(document.querySelectorAll('.file-row, .tree-folder')).filter(row => row.offsetParent !== null);
         }
+
+        function getIndex(row) {
+            return row && row.dataset.index !== undefined ? Number(row.dataset.index) : -1;
+        }
+
+        function getRowKey(row) {
+            return getIndex(row) >= 0 ? changes[getIndex(row)].uri : row.dataset.key;
+        }
+
+        function focusRow(row) {
+            if (!row) return;
+            document.querySelectorAll('.file-row, .tree-folder').forEach(r => r.tabIndex = -1);
+            row.tabIndex = 0;
+            row.focus();
+        }
+
+        // Remember where focus is, so a rebuild caused by a background change can put it back
+        document.addEventListener('focusin', event => {
+            const row = event.target.closest ? event.target.closest('.file-row, .tree-folder') : null;
+            state.listFocused = !!row;
+            if (row) {
+                state.focusKey = getRowKey(row);
+                state.focusPosition = getRows().indexOf(row);
+            }
+            vscode.setState(state);
+        });
+
+        function renderSelection() {
+            document.querySelectorAll('.file-row').forEach(row => {
+                const isSelected = selected.has(changes[getIndex(row)].uri);
+                row.classList.toggle('selected', isSelected);
+                row.setAttribute('aria-selected', String(isSelected));
+            });
+            const bar = document.getElementById('selectionBar');
+            if (bar) {
+                bar.classList.toggle('hidden', selected.size < 2);
+                document.getElementById('selectionCount').textContent = selected.size + ' files selected';
+            }
+            state.selected = Array.from(selected);
+            vscode.setState(state);
+        }
+
+        // Plain click selects one row, Ctrl/Cmd toggles a row, Shift selects a range from the last clicked row
+        function selectRow(index, modifiers) {
+            const uri = changes[index].uri;
+            if (modifiers.shiftKey && anchorIndex >= 0) {
+                const fileRows = getRows().filter(r => r.classList.contains('file-row'));
+                const positions = [anchorIndex, index].map(i => fileRows.findIndex(r => getIndex(r) === i));
+                if (!modifiers.ctrlKey && !modifiers.metaKey) selected.clear();
+                fileRows.slice(Math.min(...positions), Math.max(...positions) + 1)
+                    .forEach(r => selected.add(changes[getIndex(r)].uri));
+            } else if (modifiers.ctrlKey || modifiers.metaKey) {
+                if (selected.has(uri)) selected.delete(uri); else selected.add(uri);
+                anchorIndex = index;
+            } else {
+                selected.clear();
+                selected.add(uri);
+                anchorIndex = index;
+            }
+            renderSelection();
+        }
+
+        function rowClick(event, index) {
+            selectRow(index, event);
+            focusRow(document.querySelector('.file-row[data-index="' + index + '"]'));
+            if (!event.shiftKey && !event.ctrlKey && !event.metaKey) showDiff(index);
+        }
+
+        // Keep/Undo act on the selection when several files are selected, on the focused row otherwise
+        function getTargets(row) {
+            if (selected.size > 1) return changes.filter(c => selected.has(c.uri));
+            const index = getIndex(row);
+            return index >= 0 ? [changes[index]] : [];
+        }
+
+        // The list is rebuilt after an action - land on the nearest row that is still there
+        function rememberFocus(targets) {
+            const uris = new Set(targets.map(t => t.uri));
+            const fileRows = getRows().filter(r => r.classList.contains('file-row'));
+            const last = fileRows.reduce((found, r, position) => uris.has(changes[getIndex(r)].uri) ? position : found, -1);
+            const remaining = r => !uris.has(changes[getIndex(r)].uri);
+            const next = fileRows.slice(last + 1).find(remaining) || fileRows.slice(0, Math.max(0, last)).reverse().find(remaining);
+            state.focusUri = next ? changes[getIndex(next)].uri : undefined;
+            vscode.setState(state);
+        }
+
+        function keepTargets(targets) {
+            if (targets.length === 0) return;
+            rememberFocus(targets);
+            if (targets.length === 1) {
+                vscode.postMessage({ type: 'accept', change: targets[0] });
+            } else {
+                vscode.postMessage({ type: 'acceptSelected', uris: targets.map(t => t.uri) });
+            }
+        }
+
+        function undoTargets(targets) {
+            if (targets.length === 0) return;
+            rememberFocus(targets);
+            if (targets.length === 1) {
+                vscode.postMessage({ type: 'discard', change: targets[0] });
+            } else {
+                vscode.postMessage({ type: 'discardSelected', uris: targets.map(t => t.uri) });
+            }
+        }
+
+        function acceptSelected() {
+            keepTargets(changes.filter(c => selected.has(c.uri)));
+        }
+
+        function discardSelected() {
+            undoTargets(changes.filter(c => selected.has(c.uri)));
+        }
+
+        function clearSelection() {
+            selected.clear();
+            renderSelection();
+        }
+
+        if (fileList) {
+            fileList.addEventListener('keydown', event => {
+                const rows = getRows();
+                const row = document.activeElement ? document.activeElement.closest('.file-row, .tree-folder') : null;
+                const position = rows.indexOf(row);
+                const index = getIndex(row);
+                const isFolder = row && row.classList.contains('tree-folder');
+
+                switch (event.key) {
+                    case 'ArrowDown':
+                    case 'ArrowUp': {
+                        const step = event.key === 'ArrowDown' ? 1 : -1;
+                        const target = rows[Math.max(0, Math.min(rows.length - 1, position + step))];
+                        if (event.shiftKey && getIndex(target) >= 0) {
+                            if (anchorIndex < 0) anchorIndex = index >= 0 ? index : getIndex(target);
+                            selectRow(getIndex(target), { shiftKey: true });
+                        }
+                        focusRow(target);
+                        break;
+                    }
+                    case 'Home':
+                        focusRow(rows[0]);
+                        break;
+                    case 'End':
+                        focusRow(rows[rows.length - 1]);
+                        break;
+                    case 'ArrowRight':
+                    case 'ArrowLeft': {
+                        const expand = event.key === 'ArrowRight';
+                        if (isFolder) {
+                            if (row.nextElementSibling.classList.contains('collapsed') === expand) toggleFolder(row.dataset.key);
+                        } else if (index >= 0) {
+                            const list = document.getElementById('hunkList' + index);
+                            if (list && list.classList.contains('collapsed') === expand) toggleHunks(index);
+                        }
+                        break;
+                    }
+                    case 'Enter':
+                        if (isFolder) toggleFolder(row.dataset.key);
+                        else if (index >= 0) showDiff(index);
+                        break;
+                    case ' ':
+                        if (index >= 0) selectRow(index, { ctrlKey: true });
+                        break;
+                    case 'a':
+                        if (!event.ctrlKey && !event.metaKey) return;
+                        changes.forEach(c => selected.add(c.uri));
+                        renderSelection();
+                        break;
+                    case 'k':
+                        if (isFolder && selected.size < 2) acceptDirectory(row.dataset.key);
+                        else keepTargets(getTargets(row));
+                        break;
+                    case 'u':
+                        if (isFolder && selected.size < 2) discardDirectory(row.dataset.key);
+                        else undoTargets(getTargets(row));
+                        break;
+                    case 'v':
+                        if (index >= 0) toggleViewed(index, !row.querySelector('.viewed-toggle').checked);
+                        break;
+                    case 'Escape':
+                        clearSelection();
+                        break;
+                    default:
+                        return;
+                }
+                event.preventDefault();
+            });
+        }
+
+        // Row buttons stay mouse targets; the keyboard reaches them through the keys above
+        document.querySelectorAll('.file-row button, .file-row input, .tree-folder button').forEach(el => el.tabIndex = -1);
+
+        // Bring back the selection, and focus where the last action left off - or, after a
+        // background refresh, on the row that had it (or the one now in its place)
+        renderSelection();
+        (function restoreFocus() {
+            const rows = getRows();
+            if (rows.length === 0) return;
+            const afterAction = state.focusUri !== undefined;
+            const key = afterAction ? state.focusUri : state.focusKey;
+            const target = rows.find(r => getRowKey(r) === key)
+                || (!afterAction && state.listFocused && state.focusPosition !== undefined ? rows[Math.min(state.focusPosition, rows.length - 1)] : undefined);
+            rows.forEach(r => r.tabIndex = -1);
+            (target || rows[0]).tabIndex = 0;
+            if (target && (afterAction || (state.listFocused && document.hasFocus()))) target.focus();
+            state.focusUri = undefined;
+            vscode.setState(state);
+        })();
     </script>
 </body>
 </html>`;
     }
 
+    /**
+     * The filter box: a path substring or glob (or text in the changed lines), and change type toggles
+     */
+    private renderFilter(): string {
+        const kinds: [ChangeKind, string, string][] = [
+            ['modified', 'M', 'Modified'],
+            ['created', 'A', 'Created'],
+            ['deleted', 'D', 'Deleted']
+        ];
+        const toggles = kinds.map(([kind, letter, title]) => {
+            const active = this.filter.kinds.includes(kind);
+            return `<button class="btn-icon filter-toggle${active ? ' active' : ''}" onclick="toggleKind('${kind}')" title="${title}" aria-pressed="${active}">${letter}</button>`;
+        }).join('');
+        const searchContent = this.filter.searchContent;
+
+        return `
+            <div class="filter-bar">
+                <input type="text" class="filter-input" id="filterInput" value="${this.escapeHtml(this.filter.text)}" placeholder="${searchContent ? 'Search added and removed lines' : 'Filter by path or glob'}" aria-label="Filter changes" spellcheck="false">
+                ${toggles}
+                <button class="btn-icon filter-toggle${searchContent ? ' active' : ''}" onclick="toggleContentSearch()" title="Match text in added and removed lines" aria-pressed="${searchContent}">≡</button>
+            </div>
+        `;
+    }
+
+    /**
+     * Group rows under their workspace folder when more than one folder is open
+     */
+    private renderGroups(changes: FileChange[], renderRows: (indices: number[]) => string): string {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length <= 1) {
+            return renderRows(changes.map((_, index) => index));
+        }
+
+        const groups: (string | undefined)[] = [...folders.map(f => f.name), undefined];
+        return groups.map(folder => {
+            const indices = changes
+                .map((_, index) => index)
+                .filter(index => changes[index].workspaceFolder === folder);
+            if (indices.length === 0) return '';
+
+            const additions = indices.reduce((sum, index) => sum + changes[index].additions, 0);
+            const deletions = indices.reduce((sum, index) => sum + changes[index].deletions, 0);
+            const actions = folder ? `
+                    <div class="file-actions">
+                        <button class="btn-icon" data-folder="${this.escapeHtml(folder)}" onclick="acceptFolder(this.dataset.folder)" title="Keep All in ${this.escapeHtml(folder)}">✓</button>
+                        <button class="btn-icon" data-folder="${this.escapeHtml(folder)}" onclick="discardFolder(this.dataset.folder)" title="Undo All in ${this.escapeHtml(folder)}">↺</button>
+                    </div>` : '';
+
+            return `
+                <div class="folder-header">
+                    <span class="folder-name">${this.escapeHtml(folder ?? 'Other files')}</span>
+                    <div class="file-stats">
+                        <span class="stat-add">+${additions}</span>
+                        <span class="stat-del">-${deletions}</span>
+                    </div>${actions}
+                </div>
+                ${renderRows(indices)}
+            `;
+        }).join('');
+    }
+
+    /**
+     * Folder rows with aggregated counts and Keep/Undo for everything under them, then the files
+     */
+    private renderFolder(
+        node: FolderNode,
+        changes: FileChange[],
+        renderFile: (change: FileChange, index: number, depth?: number) => string,
+        depth: number
+    ): string {
+        const folders = node.folders.map(folder => `
+            <div class="tree-folder" style="padding-left: ${8 + depth * 12}px" role="treeitem" aria-expanded="true" aria-label="${this.escapeHtml(`${folder.name} folder, ${folder.additions} additions, ${folder.deletions} deletions`)}" tabindex="-1" data-key="${this.escapeHtml(folder.fsPath)}" onclick="toggleFolder(this.dataset.key)">
+                <span class="folder-toggle">▾</span>
+                <span class="tree-folder-name">${this.escapeHtml(folder.name)}</span>
+                <div class="file-stats">
+                    <span class="stat-add">+${folder.additions}</span>
+                    <span class="stat-del">-${folder.deletions}</span>
+                </div>
+                <div class="file-actions">
+                    <button class="btn-icon" data-path="${this.escapeHtml(folder.fsPath)}" onclick="event.stopPropagation(); acceptDirectory(this.dataset.path)" title="Keep All in ${this.escapeHtml(folder.name)}">✓</button>
+                    <button class="btn-icon" data-path="${this.escapeHtml(folder.fsPath)}" onclick="event.stopPropagation(); discardDirectory(this.dataset.path)" title="Undo All in ${this.escapeHtml(folder.name)}">↺</button>
+                </div>
+            </div>
+            <div class="folder-children" role="group" data-key="${this.escapeHtml(folder.fsPath)}">
+                ${this.renderFolder(folder, changes, renderFile, depth + 1)}
+            </div>
+        `).join('');
+
+        return folders + node.files.map(index => renderFile(changes[index], index, depth)).join('');
+    }
+
+    private renderCheckpoints(checkpoints: Checkpoint[], hasChanges: boolean): string {
+        if (checkpoints.length === 0 && !hasChanges) return '';
+
+        // Newest first
+        const rows = [...checkpoints].reverse().map(checkpoint => `
+            <div class="checkpoint-row">
+                <span class="checkpoint-name">${this.escapeHtml(checkpoint.name)}</span>
+                <span class="checkpoint-time">${checkpoint.createdAt.toLocaleTimeString()}</span>
+                <div class="file-actions">
+                    <button class="btn-icon" data-id="${checkpoint.id}" onclick="diffCheckpoint(this.dataset.id)" title="Compare with current">⇄</button>
+                    <button class="btn-icon" data-id="${checkpoint.id}" onclick="rollbackCheckpoint(this.dataset.id)" title="Roll back to this checkpoint">⟲</button>
+                    <button class="btn-icon" data-id="${checkpoint.id}" onclick="deleteCheckpoint(this.dataset.id)" title="Delete checkpoint">✕</button>
+                </div>
+            </div>
+        `).join('');
+
+        return `
+            <div class="section-header">
+                <span class="section-title">Checkpoints</span>
+                <button class="btn-icon" onclick="createCheckpoint()" title="Create Checkpoint">⚑</button>
+            </div>
+            ${rows}
+        `;
+    }
+
+    /**
+     * Review notes, by file and then by line. Clicking a note opens the diff it was written on.
+     */
+    private renderNotes(notes: ReviewNote[]): string {
+        if (notes.length === 0) return '';
+
+        const sorted = [...notes].sort((a, b) =>
+            a.relativePath.localeCompare(b.relativePath) || (a.line ?? -1) - (b.line ?? -1));
+        const rows = sorted.map(note => {
+            const location = note.line === undefined
+                ? note.relativePath
+                : `${note.relativePath}:${note.line + 1}${note.side === 'original' ? ' (original)' : ''}`;
+            return `
+            <div class="note-row" data-id="${note.id}" onclick="openNote(this.dataset.id)">
+                <span class="note-location">${this.escapeHtml(location)}</span>
+                <span class="note-body">${this.escapeHtml(note.body)}</span>
+                <div class="file-actions">
+                    <button class="btn-icon" data-id="${note.id}" onclick="event.stopPropagation(); deleteNote(this.dataset.id)" title="Delete note">✕</button>
+                </div>
+            </div>
+        `;
+        }).join('');
+
+        return `
+            <div class="section-header">
+                <span class="section-title">Review Notes</span>
+                <span class="count-badge">${notes.length}</span>
+                <button class="btn-icon" onclick="exportReview()" title="Export as Markdown">⤓</button>
+            </div>
+            ${rows}
+        `;
+    }
+
+    /**
+     * Shelved change sets, newest first, with the files an unshelve left behind as conflicts
+     */
+    private renderShelves(shelves: Shelf[], hasChanges: boolean): string {
+        if (shelves.length === 0 && !hasChanges) return '';
+
+        const rows = shelves.map(shelf => {
+            const conflicts = shelf.files.filter(f => f.conflict);
+            return `
+            <div class="shelf-row" title="${this.escapeHtml(shelf.files.map(f => f.relativePath).join('\n'))}">
+                <span class="shelf-name">${this.escapeHtml(shelf.name)}</span>
+                ${conflicts.length > 0 ? `<span class="shelf-conflicts" title="Changed since shelved: ${this.escapeHtml(conflicts.map(f => f.relativePath).join(', '))}">⚠ ${conflicts.length}</span>` : ''}
+                <span class="shelf-info">${shelf.files.length} file${shelf.files.length === 1 ? '' : 's'} · ${new Date(shelf.createdAt).toLocaleTimeString()}</span>
+                <div class="file-actions">
+                    <button class="btn-icon" data-id="${shelf.id}" onclick="unshelve(this.dataset.id)" title="Unshelve">⇪</button>
+                    <button class="btn-icon" data-id="${shelf.id}" onclick="deleteShelf(this.dataset.id)" title="Delete shelf">✕</button>
+                </div>
+            </div>
+        `;
+        }).join('');
+
+        return `
+            <div class="section-header">
+                <span class="section-title">Shelves</span>
+                ${hasChanges ? `<button class="btn-icon" onclick="shelve()" title="Shelve All Changes">⇩</button>` : ''}
+            </div>
+            ${rows}
+        `;
+    }
+
+    /**
+     * Versions thrown away by Undo, newest first. The rest are reached through the quick pick.
+     */
+    private renderDiscarded(entries: DiscardedFile[]): string {
+        if (entries.length === 0) return '';
+
+        const rows = entries.slice(0, MAX_LISTED_DISCARDED).map(entry => `
+            <div class="discarded-row" title="${this.escapeHtml(entry.relativePath)}">
+                <span class="discarded-name">${this.escapeHtml(path.basename(entry.relativePath))}</span>
+                <span class="discarded-type">${entry.changeType} · ${new Date(entry.discardedAt).toLocaleTimeString()}</span>
+                <div class="file-actions">
+                    <button class="btn-icon" data-id="${entry.id}" onclick="restoreDiscarded(this.dataset.id)" title="Restore this version">⟲</button>
+                </div>
+            </div>
+        `).join('');
+        const more = entries.length > MAX_LISTED_DISCARDED
+            ? `<div class="discarded-more" onclick="restoreDiscarded()">${entries.length - MAX_LISTED_DISCARDED} more…</div>`
+            : '';
+
+        return `
+            <div class="section-header">
+                <span class="section-title">Recently Discarded</span>
+                <span class="count-badge">${entries.length}</span>
+                <button class="btn-icon" onclick="redoUndo()" title="Redo Last Undo">↷</button>
+                <button class="btn-icon" onclick="clearDiscarded()" title="Clear">✕</button>
+            </div>
+            ${rows}${more}
+        `;
+    }
+
+    /**
+     * Timeline rows, newest first. Clicking a row diffs it against the version before it.
+     */
+    private renderVersions(versions: FileVersion[], index: number): string {
+        return versions.map((version, position) => {
+            const previous = position > 0 ? versions[position - 1].index : -1;
+            return `
+                <div class="version-row" onclick="compareVersions(${index}, ${previous}, ${version.index})">
+                    <span class="version-label">${this.escapeHtml(getVersionLabel(version))}</span>
+                    ${version.index > 0 ? `
+                    <div class="file-stats">
+                        <span class="stat-add">+${version.additions}</span>
+                        <span class="stat-del">-${version.deletions}</span>
+                    </div>` : ''}
+                    <div class="file-actions">
+                        <button class="btn-icon" onclick="event.stopPropagation(); compareVersions(${index}, -1, ${version.index})" title="Compare with...">⇆</button>
+                        <button class="btn-icon" onclick="event.stopPropagation(); restoreVersion(${index}, ${version.index})" title="Restore this version">⟲</button>
+                    </div>
+                </div>
+            `;
+        }).reverse().join('');
+    }
+
+    /**
+     * What a screen reader announces for a file row
+     */
+    private getRowLabel(change: FileChange, viewed: boolean, noteCount: number): string {
+        const fileName = path.basename(change.relativePath);
+        const dirPath = path.dirname(change.relativePath);
+        const changeLabels: Record<FileChange['changeType'], string> = {
+            modified: 'modified',
+            created: 'new file',
+            deleted: 'deleted',
+            renamed: `renamed from ${change.previousRelativePath}`
+        };
+        const stats = change.binary
+            ? `binary, ${formatSize(change.binary.originalSize)} to ${formatSize(change.binary.currentSize)}`
+            : `${change.additions} additions, ${change.deletions} deletions`;
+
+        return [
+            fileName,
+            changeLabels[change.changeType],
+            stats,
+            change.origins.map(origin => ORIGIN_ICONS[origin].label.toLowerCase()).join(', '),
+            viewed ? 'viewed' : '',
+            noteCount > 0 ? `${noteCount} review notes` : '',
+            dirPath !== '.' ? `in ${dirPath}` : ''
+        ].filter(Boolean).join(', ');
+    }
+
+    private getHunkLabel(hunk: DiffHunk): string {
+        if (hunk.currentLength === 0) {
+            return `Removed at line ${hunk.currentStart + 1}`;
+        }
+        if (hunk.currentLength === 1) {
+            return `Line ${hunk.currentStart + 1}`;
+        }
+        return `Lines ${hunk.currentStart + 1}–${hunk.currentStart + hunk.currentLength}`;
+    }
+
     private escapeHtml(text: string): string {
         return text
             .replace(/&/g, '&amp;')
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { FileChange } from './snapshotManager';
+import { DiffHunk, diffLines } from './lineDiff';
+
+// Unchanged lines shown around each change, like `git diff`
+const CONTEXT_LINES = 3;
+
+const BASE85_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz!#$%&()*+-;<=>?@^_`{|}~';
+
+/**
+ * Build a `git apply`-compatible patch from pending changes.
+ * When the changes span several workspace folders, paths are prefixed with the folder name.
+ */
+export async function createPatch(changes: FileChange[]): Promise<string> {
+    const folders = new Set(changes.map(c => c.workspaceFolder));
+    const prefixFolder = folders.size > 1;
+    const toPatchPath = (change: FileChange, relativePath: string): string => {
+        const normalized = relativePath.replace(/\\/g, '/');
+        return prefixFolder && change.workspaceFolder ? `${change.workspaceFolder}/${normalized}` : normalized;
+    };
+
+    const sorted = [...changes].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    const parts: string[] = [];
+    for (const change of sorted) {
+        const newPath = toPatchPath(change, change.relativePath);
+        const oldPath = change.previousRelativePath ? toPatchPath(change, change.previousRelativePath) : newPath;
+        parts.push(change.binary
+            ? await formatBinaryDiff(change, oldPath, newPath)
+            : formatFileDiff(change, oldPath, newPath));
+    }
+    return parts.join('');
+}
+
+/**
+ * Unified diff of one text file, including git's created/deleted/renamed headers
+ */
+export function formatFileDiff(change: FileChange, oldPath: string, newPath: string): string {
+    let header = `diff --git a/${oldPath} b/${newPath}\n`;
+    if (change.changeType === 'created') {
+        header += 'new file mode 100644\n';
+    } else if (change.changeType === 'deleted') {
+        header += 'deleted file mode 100644\n';
+    } else if (change.changeType === 'renamed') {
+        header += `rename from ${oldPath}\nrename to ${newPath}\n`;
+    }
+
+    const original = change.changeType === 'created' ? [] : toLineTokens(change.originalContent);
+    const current = change.changeType === 'deleted' ? [] : toLineTokens(change.currentContent);
+    const hunks = diffLines(original, current);
+
+    // A pure rename has no content to diff
+    if (hunks.length === 0) {
+        return header;
+    }
+
+    const fromFile = change.changeType === 'created' ? '/dev/null' : `a/${oldPath}`;
+    const toFile = change.changeType === 'deleted' ? '/dev/null' : `b/${newPath}`;
+    return `${header}--- ${fromFile}\n+++ ${toFile}\n${formatHunks(original, current, hunks)}`;
+}
+
+/**
+ * Lines including their line break, so a missing newline at the end is a difference of its own
+ */
+export function toLineTokens(content: string): string[] {
+    return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function formatHunks(original: string[], current: string[], hunks: DiffHunk[]): string {
+    let output = '';
+
+    // Hunks whose context would overlap are merged into one block
+    let groupStart = 0;
+    while (groupStart < hunks.length) {
+        let groupEnd = groupStart;
+        while (groupEnd + 1 < hunks.length &&
+               hunks[groupEnd + 1].originalStart - (hunks[groupEnd].originalStart + hunks[groupEnd].originalLength) <= 2 * CONTEXT_LINES) {
+            groupEnd++;
+        }
+
+        const first = hunks[groupStart];
+        const last = hunks[groupEnd];
+        const originalFrom = Math.max(0, first.originalStart - CONTEXT_LINES);
+        const originalTo = Math.min(original.length, last.originalStart + last.originalLength + CONTEXT_LINES);
+        const currentFrom = first.currentStart - (first.originalStart - originalFrom);
+        const currentTo = last.currentStart + last.currentLength + (originalTo - last.originalStart - last.originalLength);
+
+        output += `@@ -${formatRange(originalFrom, originalTo - originalFrom)} +${formatRange(currentFrom, currentTo - currentFrom)} @@\n`;
+
+        let position = originalFrom;
+        for (let h = groupStart; h <= groupEnd; h++) {
+            const hunk = hunks[h];
+            for (; position < hunk.originalStart; position++) {
+                output += formatLine(' ', original[position]);
+            }
+            for (let k = 0; k < hunk.originalLength; k++) {
+                output += formatLine('-', original[hunk.originalStart + k]);
+            }
+            for (let k = 0; k < hunk.currentLength; k++) {
+                output += formatLine('+', current[hunk.currentStart + k]);
+            }
+            position = hunk.originalStart + hunk.originalLength;
+        }
+        for (; position < originalTo; position++) {
+            output += formatLine(' ', original[position]);
+        }
+
+        groupStart = groupEnd + 1;
+    }
+
+    return output;
+}
+
+function formatRange(start: number, length: number): string {
+    // An empty range points at the line before it
+    return `${length === 0 ? start : start + 1},${length}`;
+}
+
+function formatLine(prefix: string, token: string): string {
+    return token.endsWith('\n')
+        ? `${prefix}${token}`
+        : `${prefix}${token}\n\\ No newline at end of file\n`;
+}
+
+/**
+ * Binary files are written as a git binary patch, which needs full blob hashes in the index line
+ */
+async function formatBinaryDiff(change: FileChange, oldPath: string, newPath: string): Promise<string> {
+    const binary = change.binary!;
+    const originalBytes = change.changeType === 'created' ? Buffer.alloc(0) : binary.originalBytes;
+    const currentBytes = change.changeType === 'deleted' ? Buffer.alloc(0) : await fs.promises.readFile(change.uri.fsPath);
+
+    let header = `diff --git a/${oldPath} b/${newPath}\n`;
+    if (change.changeType === 'created') {
+        header += 'new file mode 100644\n';
+    } else if (change.changeType === 'deleted') {
+        header += 'deleted file mode 100644\n';
+    }
+
+    const zeroHash = '0'.repeat(40);
+    const fromHash = change.changeType === 'created' ? zeroHash : gitBlobHash(originalBytes);
+    const toHash = change.changeType === 'deleted' ? zeroHash : gitBlobHash(currentBytes);
+    header += `index ${fromHash}..${toHash}${change.changeType === 'modified' ? ' 100644' : ''}\n`;
+
+    return `${header}GIT binary patch\n${formatLiteral(currentBytes)}\n${formatLiteral(originalBytes)}\n`;
+}
+
+function gitBlobHash(bytes: Buffer): string {
+    return crypto.createHash('sha1').update(`blob ${bytes.length}\0`).update(bytes).digest('hex');
+}
+
+/**
+ * A `literal` block: deflated data in base85 lines of up to 52 bytes,
+ * each prefixed with its length (A-Z for 1-26, a-z for 27-52)
+ */
+function formatLiteral(bytes: Buffer): string {
+    const deflated = zlib.deflateSync(bytes);
+    let output = `literal ${bytes.length}\n`;
+
+    for (let offset = 0; offset < deflated.length; offset += 52) {
+        const chunk = deflated.subarray(offset, offset + 52);
+        const lengthChar = chunk.length <= 26
+            ? String.fromCharCode('A'.charCodeAt(0) + chunk.length - 1)
+            : String.fromCharCode('a'.charCodeAt(0) + chunk.length - 27);
+        output += `${lengthChar}${encodeBase85(chunk)}\n`;
+    }
+
+    return output;
+}
+
+function encodeBase85(chunk: Buffer): string {
+    let output = '';
+    for (let offset = 0; offset < chunk.length; offset += 4) {
+        let word = 0;
+        for (let k = 0; k < 4; k++) {
+            word = word * 256 + (offset + k < chunk.length ? chunk[offset + k] : 0);
+        }
+
+        let encoded = '';
+        for (let k = 0; k < 5; k++) {
+            encoded = BASE85_ALPHABET[word % 85] + encoded;
+            word = Math.floor(word / 85);
+        }
+        output += encoded;
+    }
+    return output;
+}
+
+/**
+ * Reverse of encodeBase85; `length` is the number of bytes the encoded line holds
+ */
+export function decodeBase85(text: string, length: number): Buffer {
+    const bytes = Buffer.alloc(Math.ceil(text.length / 5) * 4);
+    let written = 0;
+
+    for (let offset = 0; offset < text.length; offset += 5) {
+        let word = 0;
+        for (let k = 0; k < 5; k++) {
+            const digit = BASE85_ALPHABET.indexOf(text[offset + k]);
+            if (digit === -1) {
+                throw new Error(`Invalid base85 character: ${text[offset + k]}`);
+            }
+            word = word * 85 + digit;
+        }
+        bytes.writeUInt32BE(word >>> 0, written);
+        written += 4;
+    }
+
+    return bytes.subarray(0, length);
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { SnapshotManager, FileSnapshot } from './snapshotManager';
+import { computeHunks, countHunkLines } from './lineDiff';
+
+// Oldest intermediate versions are dropped beyond this count (the baseline is always kept)
+const MAX_VERSIONS_PER_FILE = 50;
+
+export interface FileVersion {
+    index: number;           // 0 is the snapshot baseline
+    content: string | null;  // null if the file was deleted at that point
+    time: Date;
+    additions: number;       // relative to the previous version
+    deletions: number;
+}
+
+/**
+ * Records every save or disk write of a tracked file between its snapshot and now,
+ * so intermediate versions an agent went through can be inspected and restored
+ */
+export class VersionHistory implements vscode.Disposable {
+    private versions: Map<string, FileVersion[]> = new Map();
+    private nextIndex: Map<string, number> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    private _onVersionsChanged = new vscode.EventEmitter<vscode.Uri>();
+    readonly onVersionsChanged = this._onVersionsChanged.event;
+
+    constructor(private snapshotManager: SnapshotManager) {
+        // Forget the history of files that were kept or undone
+        this.disposables.push(
+            snapshotManager.onSnapshotsChanged(() => this.prune())
+        );
+    }
+
+    /**
+     * Record the current content of a tracked file as a new version (no-op if unchanged)
+     */
+    async recordVersion(uri: vscode.Uri): Promise<void> {
+        const snapshot = this.getTrackedSnapshot(uri);
+        if (!snapshot || snapshot.isBinary) return;
+
+        const key = uri.fsPath;
+        const content = await this.snapshotManager.getCurrentContent(uri);
+        const recorded = this.versions.get(key) ?? [];
+        const previous = recorded.length > 0
+            ? recorded[recorded.length - 1].content
+            : (snapshot.isNewFile ? '' : snapshot.originalContent);
+        if (content === previous) return;
+
+        const { additions, deletions } = countHunkLines(computeHunks(previous ?? '', content ?? ''));
+        const index = this.nextIndex.get(key) ?? 1;
+        this.nextIndex.set(key, index + 1);
+
+        recorded.push({ index, content, time: new Date(), additions, deletions });
+        if (recorded.length > MAX_VERSIONS_PER_FILE) {
+            recorded.shift();
+        }
+        this.versions.set(key, recorded);
+        this._onVersionsChanged.fire(uri);
+    }
+
+    /**
+     * All versions of a file, oldest first, starting with the snapshot baseline
+     */
+    getVersions(uri: vscode.Uri): FileVersion[] {
+        const snapshot = this.getTrackedSnapshot(uri);
+        if (!snapshot) return [];
+
+        const baseline: FileVersion = {
+            index: 0,
+            content: snapshot.isNewFile ? null : snapshot.originalContent,
+            time: snapshot.snapshotTime,
+            additions: 0,
+            deletions: 0
+        };
+        return [baseline, ...(this.versions.get(uri.fsPath) ?? [])];
+    }
+
+    getVersion(uri: vscode.Uri, index: number): FileVersion | undefined {
+        return this.getVersions(uri).find(v => v.index === index);
+    }
+
+    private getTrackedSnapshot(uri: vscode.Uri): FileSnapshot | undefined {
+        return this.snapshotManager.getSnapshot(uri) ??
+            this.snapshotManager.getDeletedSnapshots().find(s => s.uri.fsPath === uri.fsPath);
+    }
+
+    private prune(): void {
+        for (const key of [...this.versions.keys()]) {
+            if (!this.getTrackedSnapshot(vscode.Uri.file(key))) {
+                this.versions.delete(key);
+                this.nextIndex.delete(key);
+            }
+        }
+    }
+
+    dispose(): void {
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+        this._onVersionsChanged.dispose();
+    }
+}
+
+export function getVersionLabel(version: FileVersion): string {
+    if (version.index === 0) {
+        return 'Snapshot';
+    }
+    return `Version ${version.index} (${version.time.toLocaleTimeString()})`;
+}
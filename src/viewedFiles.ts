@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { FileChange } from './snapshotManager';
+
+const STATE_KEY = 'pendingChanges.viewedFiles';
+
+/**
+ * Files marked as viewed in the panel. A file stays viewed only while its content
+ * is what it was when it was marked, so a later write brings it back for review.
+ */
+export class ViewedFiles implements vscode.Disposable {
+    private viewed: Map<string, string>;  // fsPath -> content hash when marked viewed
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private state: vscode.Memento) {
+        this.viewed = new Map(Object.entries(state.get<Record<string, string>>(STATE_KEY) ?? {}));
+    }
+
+    isViewed(change: FileChange): boolean {
+        return this.viewed.get(change.uri.fsPath) === change.contentHash;
+    }
+
+    setViewed(change: FileChange, viewed: boolean): void {
+        if (viewed) {
+            this.viewed.set(change.uri.fsPath, change.contentHash);
+        } else {
+            this.viewed.delete(change.uri.fsPath);
+        }
+        this.save();
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Reset files whose content changed since they were viewed, so going back
+     * to the viewed content later doesn't count as viewed either
+     */
+    prune(changes: FileChange[]): void {
+        let changed = false;
+        for (const change of changes) {
+            const hash = this.viewed.get(change.uri.fsPath);
+            if (hash !== undefined && hash !== change.contentHash) {
+                this.viewed.delete(change.uri.fsPath);
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.save();
+        }
+    }
+
+    /**
+     * Drop kept or undone files
+     */
+    forget(uris: vscode.Uri[]): void {
+        let changed = false;
+        for (const uri of uris) {
+            changed = this.viewed.delete(uri.fsPath) || changed;
+        }
+        if (changed) {
+            this.save();
+        }
+    }
+
+    private save(): void {
+        this.state.update(STATE_KEY, Object.fromEntries(this.viewed));
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}